@@ -1,53 +1,1577 @@
 // Enhanced TypeScript autocomplete with improved design and efficiency
-(function () {
-  'use strict';
-
-  interface AutocompleteConfig {
-    MAX_WORDS: number;
-    MAX_SUGGESTIONS: number;
-    MAX_STABLE: number;
-    DEBOUNCE_DELAY: number;
-    STORAGE_SYNC_DELAY: number;
-    IDLE_CLEANUP_DELAY: number;
-    classes?: {
-      popupContainer?: string;
-      popupRow?: string;
-      popupRowSelected?: string;
-      popupHint?: string;
-    };
+export interface AutocompleteConfig {
+  MAX_WORDS: number;
+  MAX_SUGGESTIONS: number;
+  /** @deprecated Eviction now removes the lowest-scored word one at a time; this has no effect */
+  MAX_STABLE: number;
+  DEBOUNCE_DELAY: number;
+  STORAGE_SYNC_DELAY: number;
+  IDLE_CLEANUP_DELAY: number;
+  SOURCE_TIMEOUT: number;
+  MAX_PHRASE_WORDS: number;
+  FUZZY_DISTANCE: number;
+  // Milliseconds after which an unused word's score has halved
+  HALF_LIFE: number;
+  scoreWord?: ScoreFunction;
+  // Skip emails, card and phone numbers and long hex strings when learning; on unless false
+  filterSensitive?: boolean;
+  // Only learn words matching one of these, and never words matching `deny`
+  allow?: WordPattern;
+  deny?: WordPattern;
+  // Final say on whether a typed word is learned
+  shouldLearn?: (word: string, element: HTMLElement) => boolean;
+  // What counts as one word character, as a RegExp or pattern string; defaults to letters, digits, _, ' and -
+  wordChars?: RegExp | string;
+  // Single characters that start a token of their own kind, like "@name" or "#tag"
+  triggers?: string[];
+  // Strip leading and trailing punctuation from tokens; on unless false
+  trimPunctuation?: boolean;
+  // Locale for Intl.Segmenter, which splits Chinese, Japanese, Thai and other unspaced text into words
+  locale?: string;
+  // Custom row content; return nothing to fall back to the default icon, label and detail
+  renderRow?: RenderRowFunction;
+  // Built-in palette for the popup and ghost; "auto" follows the system color scheme and contrast settings
+  theme?: ThemeName | "auto";
+  // Turns the group off without detaching its elements; on unless false
+  enabled?: boolean;
+  // Set to false to suggest without ever learning what is typed
+  learn?: boolean;
+  // Set to false to learn silently without showing the ghost or popup
+  suggest?: boolean;
+  // Bindings per action, merged over the defaults; an empty list unbinds the action
+  keymap?: Keymap;
+  // Plain ArrowRight only acts with the caret at the end of the line, and moves the caret otherwise
+  arrowRightAtLineEnd?: boolean;
+  // Enter accepts the highlighted suggestion instead of committing the line
+  enterAccepts?: boolean;
+  // Forget and pin buttons on rows for learned words, shown on hover; on unless false
+  rowActions?: boolean;
+  storage?: StorageAdapter | StorageKind;
+  classes?: {
+    popupContainer?: string;
+    popupRow?: string;
+    popupRowSelected?: string;
+    popupHint?: string;
+  };
+}
+
+// What's left of a suggestion accepted word by word, valid while the text and caret are where it left them
+interface PartialAccept {
+  item: SuggestionItem;
+  type: SuggestEventDetail["type"];
+  rest: string;
+  // Where the suggestion started, for learning it once it's complete
+  from: number;
+  text: string;
+  caret: number;
+}
+
+interface WordBounds {
+  start: number;
+  end: number;
+  word: string;
+  // The trigger character the token starts with, e.g. "@" in "@jane"
+  trigger?: string;
+}
+
+// Intl.Segmenter isn't in the ES2020 lib typings
+interface WordSegmenter {
+  segment(input: string): Iterable<{ segment: string; index: number; isWordLike?: boolean }>;
+}
+
+interface Tokenizer {
+  isWordChar: (ch: string) => boolean;
+  triggers: string[];
+  trim: boolean;
+  segmenter: WordSegmenter | null;
+}
+
+interface CaretCoords {
+  left: number;
+  top: number;
+  height: number;
+}
+
+export interface WordEntry {
+  lastUsed: number;
+  frequency: number;
+  // Never evicted to make room for new words
+  pinned?: boolean;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+// Strings are compiled with `new RegExp` so patterns can come from data-autocomplete-params
+export type WordPattern = RegExp | string | Array<RegExp | string>;
+
+// Backend for learned data. Values are plain JSON-compatible objects; methods may be sync or async.
+export interface StorageAdapter {
+  get(key: string): MaybePromise<unknown>;
+  set(key: string, value: unknown): MaybePromise<void>;
+  remove(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+}
+
+export type StorageKind = "local" | "session" | "memory" | "indexeddb";
+
+// Raw AES key bytes (16 or 32), an AES-GCM CryptoKey, or a passphrase stretched with PBKDF2
+export type EncryptionKey = CryptoKey | ArrayBuffer | Uint8Array | { passphrase: string; iterations?: number };
+
+export interface EncryptionOptions {
+  key: EncryptionKey;
+  // Keys older blobs may still be encrypted with; such blobs are re-encrypted with `key` when read
+  previousKeys?: EncryptionKey[];
+}
+
+export interface EncryptedStorageAdapter extends StorageAdapter {
+  // Encrypts plaintext and old-key blobs under the current key; resolves to how many were rewritten
+  migrate(): Promise<number>;
+  // Switches writes to `key` and re-encrypts what is stored; the previous keys stay readable
+  rotateKey(key: EncryptionKey): Promise<number>;
+}
+
+export type ThemeName = "light" | "dark" | "high-contrast";
+
+// "inline" styles elements directly, "classes" only through the injected stylesheet, "none" leaves styling to the page
+export type StyleMode = "inline" | "classes" | "none";
+
+interface StoredWords {
+  words: string[];
+  entries: { [word: string]: WordEntry };
+  // Lowercased words that are never learned or suggested again
+  blocked?: string[];
+  // Lowercased forgotten words and when; a copy of the word last used before then is dropped on merge
+  removed?: { [word: string]: number };
+}
+
+interface WordsCache {
+  words: string[];
+  entries: { [word: string]: WordEntry };
+  blocked: Set<string>;
+  // Unpinned or unblocked since the last write, so merging the stored copy doesn't undo it
+  released: Set<string>;
+  // Forgotten words and when, until learned again, so stored and remote copies don't bring them back
+  removed: Map<string, number>;
+}
+
+// Portable, versioned snapshot of one group's learned state
+export interface VocabularyExport {
+  format: "ghostcomplete-vocabulary";
+  version: number;
+  group: string;
+  exportedAt: number;
+  words: Array<{ word: string; frequency: number; lastUsed: number; pinned?: boolean }>;
+  blocked?: string[];
+  transitions?: { [word: string]: { [next: string]: WordEntry } };
+}
+
+// Vocabulary management UI from mountPanel; it follows the group's words until destroyed
+export interface WordPanel {
+  element: HTMLElement;
+  refresh(): void;
+  destroy(): void;
+}
+
+export interface QueryOptions {
+  // Defaults to the group's MAX_SUGGESTIONS
+  limit?: number;
+  // The word before an empty prefix, to get next-word predictions
+  previous?: string;
+}
+
+export interface ImportOptions {
+  // "merge" (default) keeps existing words; "replace" discards them first
+  mode?: "merge" | "replace";
+}
+
+// Learned word-to-next-word counts, keyed by lowercased words
+type TransitionMap = { [word: string]: { [next: string]: WordEntry } };
+
+interface PendingStorage {
+  words: Set<string>;
+  // Groups whose next write replaces the stored documents instead of merging with them
+  replaced: Set<string>;
+  // Legacy keys read into each group, removed once the group is written under its current key
+  legacy: Map<string, string[]>;
+}
+
+// A run of a contenteditable's linearized text; non-text segments stand for a line break
+interface TextSegment {
+  node: Node;
+  isText: boolean;
+  start: number;
+  length: number;
+}
+
+interface EditableText {
+  text: string;
+  segments: TextSegment[];
+}
+
+export type ScoreFunction = (entry: WordEntry, word: string, now: number) => number;
+
+interface Candidate {
+  word: string;
+  score: number;
+  // Edit distance for typo-tolerant matches; exact prefix matches leave it unset
+  distance?: number;
+  // Set when a source supplied a structured suggestion; `word` is then its value
+  item?: SuggestionItem;
+}
+
+// A suggestion whose row can show more than the text it inserts
+export interface SuggestionItem {
+  // Inserted in place of the token, trigger included, e.g. "@jdoe "
+  value: string;
+  // Shown instead of the value, e.g. "Jane Doe"
+  label?: string;
+  // Secondary text after the label
+  detail?: string;
+  // Image URL, or short text such as an emoji
+  icon?: string;
+  data?: unknown;
+}
+
+export type Suggestion = string | SuggestionItem;
+
+export interface RowContext {
+  index: number;
+  selected: boolean;
+  // The token being completed, trigger included
+  query: string;
+  type: SuggestEventDetail["type"];
+  // Wraps the part of `text` that matches the query in [data-sugg-match] spans, as default rows do
+  highlight: (text: string) => HTMLElement;
+}
+
+export type KeyAction = "accept" | "acceptWord" | "acceptChar" | "next" | "prev" | "pageDown" | "pageUp" | "first" | "last" | "dismiss" | "forget" | "pin";
+
+// Each binding is a key name with optional modifiers, like "Tab", "Ctrl+ArrowRight" or "Mod+Enter"
+export type Keymap = { [action in KeyAction]?: string[] };
+
+// Called for each row, and again for rows whose selection changes; a string is shown as text
+export type RenderRowFunction = (item: SuggestionItem, context: RowContext) => Node | string | null | undefined | void;
+
+interface FuzzyMatch {
+  word: string;
+  distance: number;
+}
+
+export interface SourceContext {
+  group: string;
+  limit: number;
+  signal: AbortSignal;
+  // The trigger the token started with, for sources registered with one; the token passed is without it
+  trigger?: string;
+}
+
+export type SourceFunction = (token: string, context: SourceContext) => Suggestion[] | Promise<Suggestion[]>;
+
+export interface SuggestionSource {
+  id?: string;
+  words?: Suggestion[];
+  fetch?: SourceFunction;
+  weight?: number;
+  timeout?: number;
+  // Only consulted for tokens starting with this trigger character, in place of learned words
+  trigger?: string;
+}
+
+interface RegisteredSource extends SuggestionSource {
+  id: string;
+  trie: Trie | null;
+  order: { [word: string]: number };
+  items: SuggestionItem[];
+  byValue: { [value: string]: SuggestionItem };
+}
+
+interface SourceRequest {
+  token: string;
+  trigger: string;
+  group: string;
+  lists: Candidate[][];
+  controller: AbortController;
+}
+
+export interface SuggestEventDetail {
+  group: string;
+  query: string;
+  type: "completion" | "prediction" | "trigger";
+  // Plain words are strings, structured suggestions items; in `beforesuggest` the list may be replaced or edited in place
+  suggestions: Suggestion[];
+}
+
+export interface SelectEventDetail {
+  group: string;
+  index: number;
+  // The value that would be inserted
+  suggestion: string;
+  item: SuggestionItem;
+}
+
+export interface AcceptEventDetail {
+  group: string;
+  query: string;
+  suggestion: string;
+  item: SuggestionItem;
+}
+
+export interface DismissEventDetail {
+  group: string;
+  reason: "escape" | "commit" | "blur" | "outside" | "empty" | "disabled";
+}
+
+export interface LearnEventDetail {
+  group: string;
+  word: string;
+  previous: string;
+}
+
+export interface ForgetEventDetail {
+  group: string;
+  word: string;
+}
+
+export interface PinEventDetail {
+  group: string;
+  word: string;
+  pinned: boolean;
+}
+
+// Dispatched on the input as `ghostcomplete:<name>`; they bubble, cross shadow roots, and `before*` ones are cancelable
+export interface GhostCompleteEventMap {
+  beforesuggest: SuggestEventDetail;
+  suggest: SuggestEventDetail;
+  select: SelectEventDetail;
+  beforeaccept: AcceptEventDetail;
+  accept: AcceptEventDetail;
+  dismiss: DismissEventDetail;
+  beforelearn: LearnEventDetail;
+  learn: LearnEventDetail;
+  beforeforget: ForgetEventDetail;
+  forget: ForgetEventDetail;
+  pin: PinEventDetail;
+}
+
+export type GhostCompleteHooks = {
+  [K in keyof GhostCompleteEventMap]?: (event: CustomEvent<GhostCompleteEventMap[K]>, element: HTMLElement) => void;
+};
+
+type GhostCompleteDOMEvents = {
+  [K in keyof GhostCompleteEventMap as `ghostcomplete:${K}`]: CustomEvent<GhostCompleteEventMap[K]>;
+};
+
+declare global {
+  interface HTMLElementEventMap extends GhostCompleteDOMEvents {}
+  interface DocumentEventMap extends GhostCompleteDOMEvents {}
+}
+
+export interface GhostCompleteOptions {
+  // Global defaults for this instance, merged over DEFAULT_CONFIG
+  config?: Partial<AutocompleteConfig>;
+  // Per-group overrides, same as calling setGroupConfig for each entry
+  groups?: { [group: string]: Partial<AutocompleteConfig> };
+  // Prefix for storage keys so instances don't share vocabularies
+  namespace?: string;
+  // Where listeners are installed; only elements inside it are handled
+  root?: Document | ShadowRoot | HTMLElement;
+  // Where the ghost, popup and measuring mirror are mounted; by default next to the focused element, in its shadow root or frame
+  container?: HTMLElement | ShadowRoot;
+  // Default backend for every group; a group's `storage` config overrides it
+  storage?: StorageAdapter | StorageKind;
+  // How the popup and ghost get their look; "inline" by default
+  styleMode?: StyleMode;
+  // Called when a storage read or write fails; learned data stays in memory either way
+  onStorageError?: (error: unknown, key: string) => void;
+  // Merge words learned in other tabs (storage events / BroadcastChannel); on by default
+  crossTabSync?: boolean;
+  // Screen reader announcements for the polite live region; `false` turns them off
+  announcements?: false | {
+    count?: (count: number, type: SuggestEventDetail["type"]) => string;
+    accepted?: (suggestion: string) => string;
+  };
+  // Callbacks run before the matching DOM event is dispatched; call preventDefault() on `before*` events to veto
+  on?: GhostCompleteHooks;
+}
+
+export type GhostCompleteInstance = ReturnType<typeof createGhostComplete>;
+
+const DEFAULT_CONFIG: AutocompleteConfig = {
+  MAX_WORDS: 300,
+  MAX_SUGGESTIONS: 5,
+  MAX_STABLE: 100,
+  DEBOUNCE_DELAY: 160,
+  STORAGE_SYNC_DELAY: 600,
+  IDLE_CLEANUP_DELAY: 2000,
+  SOURCE_TIMEOUT: 2000,
+  MAX_PHRASE_WORDS: 3,
+  FUZZY_DISTANCE: 0,
+  HALF_LIFE: 7 * 24 * 60 * 60 * 1000
+};
+
+// Only acted on while suggestions are showing; navigation needs at least two of them
+const DEFAULT_KEYMAP: { [action in KeyAction]: string[] } = {
+  accept: ["Tab", "ArrowRight"],
+  acceptWord: ["Ctrl+ArrowRight", "Alt+ArrowRight"],
+  acceptChar: [],
+  next: ["ArrowDown"],
+  prev: ["ArrowUp"],
+  pageDown: ["PageDown"],
+  pageUp: ["PageUp"],
+  first: ["Home"],
+  last: ["End"],
+  dismiss: ["Escape"],
+  // Only for learned words; otherwise the key keeps its default behaviour
+  forget: ["Shift+Delete"],
+  pin: []
+};
+
+const KEY_SYMBOLS: { [key: string]: string } = { ArrowRight: "→", ArrowLeft: "←", ArrowUp: "↑", ArrowDown: "↓", Escape: "Esc", " ": "Space" };
+
+// How a binding is shown in the popup hint, e.g. "Ctrl+→"
+function formatBinding(binding: string): string {
+  return binding.replace(/[^+]+$/, key => KEY_SYMBOLS[key] || key);
+}
+
+const MODIFIER_ALIASES: { [name: string]: string } = { control: "ctrl", option: "alt", cmd: "meta", command: "meta" };
+
+// Modifiers must match exactly, so "Tab" doesn't fire on Shift+Tab; "Mod" is Cmd on Apple platforms and Ctrl elsewhere
+function matchesBinding(e: KeyboardEvent, binding: string): boolean {
+  const parts = binding.split("+");
+  let key = parts.pop() || "";
+  if (!key && parts.length > 1) {
+    parts.pop();
+    key = "+";
   }
+  const mods = new Set(parts.map(part => MODIFIER_ALIASES[part.toLowerCase()] || part.toLowerCase()));
+  if (mods.has("mod")) mods.add(/Mac|iPhone|iPad/.test(navigator.platform) ? "meta" : "ctrl");
+  if (e.ctrlKey !== mods.has("ctrl") || e.altKey !== mods.has("alt") || e.metaKey !== mods.has("meta") || e.shiftKey !== mods.has("shift")) return false;
+  if (key.toLowerCase() === "space") key = " ";
+  return e.key.length === 1 ? e.key.toLowerCase() === key.toLowerCase() : e.key === key;
+}
+
+const MAX_FOLLOWERS = 20;
+const PHRASE_MIN_FREQUENCY = 2;
+const EMPTY_ENTRY: WordEntry = { lastUsed: 0, frequency: 0 };
+
+// Frequency halved for every `halfLife` since the word was last used
+function decayScore(entry: WordEntry, now: number, halfLife: number): number {
+  return entry.frequency * Math.pow(0.5, Math.max(0, now - entry.lastUsed) / halfLife);
+}
 
-  interface WordBounds {
-    start: number;
-    end: number;
-    word: string;
+function createWordsCache(): WordsCache {
+  return { words: [], entries: Object.create(null), blocked: new Set(), released: new Set(), removed: new Map() };
+}
+
+class TrieNode {
+  children: { [key: string]: TrieNode } = Object.create(null);
+  isWord = false;
+  // Lowercased words below this node in collect order, built on the first ranked search; null once stale
+  words: string[] | null = null;
+}
+
+class Trie {
+  root = new TrieNode();
+
+  insert(word: string): void {
+    if (!word) return;
+    let node = this.root;
+    const lower = word.toLowerCase();
+    node.words = null;
+    for (let i = 0; i < lower.length; i++) {
+      const ch = lower[i];
+      if (!node.children[ch]) node.children[ch] = new TrieNode();
+      node = node.children[ch];
+      node.words = null;
+    }
+    node.isWord = true;
   }
 
-  interface CaretCoords {
-    left: number;
-    top: number;
-    height: number;
+  // Unmarks the word and prunes the branch it leaves empty; false if it wasn't there
+  remove(word: string): boolean {
+    const lower = word.toLowerCase();
+    const path: TrieNode[] = [this.root];
+    let node = this.root;
+    for (let i = 0; i < lower.length; i++) {
+      node = node.children[lower[i]];
+      if (!node) return false;
+      path.push(node);
+    }
+    if (!node.isWord) return false;
+    node.isWord = false;
+    path.forEach(n => (n.words = null));
+    for (let i = lower.length; i > 0; i--) {
+      const child = path[i];
+      if (child.isWord || Object.keys(child.children).length > 0) break;
+      delete path[i - 1].children[lower[i - 1]];
+    }
+    return true;
   }
 
-  interface WordEntry {
-    lastUsed: number;
-    frequency: number;
+  search(prefix: string, limit = 5, score?: (word: string) => number): string[] {
+    const res: string[] = [];
+    if (!prefix) return res;
+    const lower = prefix.toLowerCase();
+    let node = this.root;
+    for (let i = 0; i < lower.length; i++) {
+      const ch = lower[i];
+      node = node.children[ch];
+      if (!node) return res;
+    }
+    if (!score) {
+      this._collect(node, prefix, res, limit);
+      return res;
+    }
+
+    // Ranked path: scores depend on the time and on the configured score function, so they can't be kept
+    // in the trie. Every word under the prefix is scored, which eviction bounds at MAX_WORDS for learned
+    // words; the word lists are cached per node and only the top `limit` are kept sorted.
+    const top: Array<{ word: string; score: number }> = [];
+    for (const word of this._words(node, lower)) {
+      const candidate = prefix + word.slice(lower.length);
+      const value = score(candidate);
+      if (top.length >= limit && (limit <= 0 || !(value > top[top.length - 1].score))) continue;
+      // After equal scores, so earlier words win ties
+      let i = top.length;
+      while (i > 0 && value > top[i - 1].score) i--;
+      top.splice(i, 0, { word: candidate, score: value });
+      if (top.length > limit) top.pop();
+    }
+    return top.map(item => item.word);
+  }
+
+  // Words with a prefix within `maxDistance` edits of `query` (Damerau-Levenshtein, adjacent transpositions)
+  searchFuzzy(query: string, maxDistance: number): FuzzyMatch[] {
+    const results: FuzzyMatch[] = [];
+    const lower = query.toLowerCase();
+    if (!lower) return results;
+    const firstRow = Array.from({ length: lower.length + 1 }, (_, i) => i);
+    for (const ch in this.root.children) {
+      this._walkFuzzy(this.root.children[ch], ch, "", lower, firstRow, null, maxDistance, -1, results);
+    }
+    return results;
+  }
+
+  private _walkFuzzy(node: TrieNode, ch: string, path: string, query: string, prevRow: number[], prevPrevRow: number[] | null, maxDistance: number, best: number, acc: FuzzyMatch[]): void {
+    const prevCh = path[path.length - 1];
+    const row = [prevRow[0] + 1];
+    for (let i = 1; i <= query.length; i++) {
+      const cost = query[i - 1] === ch ? 0 : 1;
+      let value = Math.min(row[i - 1] + 1, prevRow[i] + 1, prevRow[i - 1] + cost);
+      if (prevPrevRow && i > 1 && query[i - 1] === prevCh && query[i - 2] === ch) {
+        value = Math.min(value, prevPrevRow[i - 2] + 1);
+      }
+      row.push(value);
+    }
+
+    const word = path + ch;
+    const distance = row[query.length];
+    if (distance <= maxDistance && (best < 0 || distance < best)) best = distance;
+    if (node.isWord && best >= 0) acc.push({ word, distance: best });
+    // Once some prefix matched, every word below it is a completion of that match
+    if (best < 0 && Math.min(...row) > maxDistance) return;
+
+    for (const next in node.children) {
+      this._walkFuzzy(node.children[next], next, word, query, row, prevRow, maxDistance, best, acc);
+    }
+  }
+
+  private _words(node: TrieNode, prefix: string): string[] {
+    if (node.words) return node.words;
+    const words: string[] = node.isWord ? [prefix] : [];
+    for (const ch in node.children) {
+      const below = this._words(node.children[ch], prefix + ch);
+      for (let i = 0; i < below.length; i++) words.push(below[i]);
+    }
+    return (node.words = words);
+  }
+
+  private _collect(node: TrieNode, prefix: string, acc: string[], limit: number): void {
+    if (acc.length >= limit) return;
+    if (node.isWord) acc.push(prefix);
+    if (acc.length >= limit) return;
+    for (const ch in node.children) {
+      this._collect(node.children[ch], prefix + ch, acc, limit);
+      if (acc.length >= limit) return;
+    }
   }
+}
 
-  interface PendingStorage {
-    words: Set<string>;
+// Typo tolerance scales with token length so short tokens don't match everything
+function getFuzzyDistance(token: string, config: AutocompleteConfig): number {
+  const allowed = token.length < 3 ? 0 : token.length < 6 ? 1 : 2;
+  return Math.max(0, Math.min(config.FUZZY_DISTANCE || 0, allowed));
+}
+
+// Character ranges of `word` that line up with `query`, for highlighting
+function getMatchRanges(query: string, word: string): [number, number][] {
+  const q = query.toLowerCase();
+  const w = word.toLowerCase();
+  if (!q) return [];
+  if (w.startsWith(q)) return [[0, q.length]];
+
+  // Edit distance of `query` against every prefix of `word`, then trace back the best one
+  const d: number[][] = [];
+  for (let i = 0; i <= q.length; i++) {
+    d.push([i]);
+    for (let j = 1; j <= w.length; j++) {
+      if (i === 0) { d[i].push(j); continue; }
+      const cost = q[i - 1] === w[j - 1] ? 0 : 1;
+      let value = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && q[i - 1] === w[j - 2] && q[i - 2] === w[j - 1]) value = Math.min(value, d[i - 2][j - 2] + 1);
+      d[i].push(value);
+    }
   }
+  let j = 0;
+  for (let k = 1; k <= w.length; k++) if (d[q.length][k] < d[q.length][j]) j = k;
 
-  const DEFAULT_CONFIG: AutocompleteConfig = {
-    MAX_WORDS: 300,
-    MAX_SUGGESTIONS: 5,
-    MAX_STABLE: 100,
-    DEBOUNCE_DELAY: 160,
-    STORAGE_SYNC_DELAY: 600,
-    IDLE_CLEANUP_DELAY: 2000
+  const matched: boolean[] = [];
+  let i = q.length;
+  while (i > 0 && j > 0) {
+    const same = q[i - 1] === w[j - 1];
+    if (d[i][j] === d[i - 1][j - 1] + (same ? 0 : 1)) {
+      if (same) matched[j - 1] = true;
+      i--; j--;
+    } else if (i > 1 && j > 1 && q[i - 1] === w[j - 2] && q[i - 2] === w[j - 1] && d[i][j] === d[i - 2][j - 2] + 1) {
+      i -= 2; j -= 2;
+    } else if (d[i][j] === d[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  const ranges: [number, number][] = [];
+  matched.forEach((isMatch, index) => {
+    if (!isMatch) return;
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === index) last[1] = index + 1;
+    else ranges.push([index, index + 1]);
+  });
+  return ranges;
+}
+
+// The query at the start of the label, else at the start of one of its words
+function getLabelRanges(query: string, label: string): [number, number][] {
+  const q = query.toLowerCase();
+  const l = label.toLowerCase();
+  if (!q) return [];
+  for (let i = l.indexOf(q); i >= 0; i = l.indexOf(q, i + 1)) {
+    if (i === 0 || /\s/.test(l[i - 1])) return [[i, i + q.length]];
+  }
+  return [];
+}
+
+// Among typo matches of equal distance, whole-word corrections beat longer completions
+function lengthGap(token: string, word: string): number {
+  return Math.abs(word.length - token.length);
+}
+
+// Text the ghost shows after the caret: the rest of a completion, or the whole replacement
+function getGhostText(token: string, suggestion: string): string {
+  return token && suggestion.toLowerCase().startsWith(token.toLowerCase())
+    ? suggestion.slice(token.length)
+    : suggestion;
+}
+
+function toSuggestionItem(suggestion: unknown): SuggestionItem | null {
+  if (typeof suggestion === "string") return suggestion ? { value: suggestion } : null;
+  const item = suggestion as SuggestionItem | null;
+  return item && typeof item === "object" && typeof item.value === "string" && item.value ? item : null;
+}
+
+// Plain words go back out as strings, so listeners written for strings keep working
+function fromSuggestionItem(item: SuggestionItem): Suggestion {
+  return item.label === undefined && item.detail === undefined && item.icon === undefined && item.data === undefined ? item.value : item;
+}
+
+// Trigger queries match the value after its trigger, or the start of any word of the label
+function matchesItem(query: string, item: SuggestionItem, trigger: string): boolean {
+  const q = query.toLowerCase();
+  if (!q) return true;
+  const value = item.value.toLowerCase();
+  if ((value.startsWith(trigger) ? value.slice(trigger.length) : value).startsWith(q)) return true;
+  const label = (item.label || "").toLowerCase();
+  return label.startsWith(q) || label.split(/\s+/).some(part => part.startsWith(q));
+}
+
+function isPromise<T>(value: MaybePromise<T>): value is Promise<T> {
+  return !!value && typeof (value as Promise<T>).then === "function";
+}
+
+// Null-prototype copy, so learned words like "constructor" can't hit Object.prototype
+function toDictionary<T>(source: unknown): { [key: string]: T } {
+  return Object.assign(Object.create(null), source && typeof source === "object" ? source : {});
+}
+
+// "sum" folds in words learned while a load was in flight; "max" reconciles two snapshots
+// of the same data, e.g. from another tab, without double counting
+type MergeMode = "sum" | "max";
+
+function mergeEntry(mine: WordEntry | undefined, theirs: WordEntry, mode: MergeMode): WordEntry {
+  if (!mine) return theirs;
+  const merged: WordEntry = {
+    frequency: mode === "sum" ? mine.frequency + theirs.frequency : Math.max(mine.frequency, theirs.frequency),
+    lastUsed: Math.max(mine.lastUsed, theirs.lastUsed)
+  };
+  if (mine.pinned || theirs.pinned) merged.pinned = true;
+  return merged;
+}
+
+function copyEntry(entry: WordEntry): WordEntry {
+  const copy: WordEntry = { frequency: entry.frequency, lastUsed: entry.lastUsed };
+  if (entry.pinned === true) copy.pinned = true;
+  return copy;
+}
+
+function mergeTransitionMaps(target: TransitionMap, data: unknown, mode: MergeMode): void {
+  const stored = toDictionary<{ [next: string]: WordEntry }>((data as { transitions?: unknown } | null)?.transitions);
+  for (const word in stored) {
+    const followers = (target[word] = target[word] || Object.create(null));
+    const incoming = toDictionary<WordEntry>(stored[word]);
+    for (const next in incoming) followers[next] = mergeEntry(followers[next], incoming[next], mode);
+  }
+}
+
+const SYNC_CHANNEL = "ghostcomplete";
+
+// Shape of one kind of stored document. Key names keep their historical suffixes; migrations go by
+// the version stored inside the document, or by what an unversioned one looks like.
+interface StorageSchema<T> {
+  version: number;
+  // Version of a stored value, 0 when it isn't a document of this kind at all
+  detect(data: unknown): number;
+  // Step n turns a version n document into version n + 1
+  migrations: { [version: number]: (data: any) => any };
+  // Drops invalid entries; throws when the document as a whole can't be used
+  validate(data: any): T;
+}
+
+function isValidEntry(entry: unknown): entry is WordEntry {
+  const e = entry as WordEntry | null;
+  return !!e && typeof e === "object" && Number.isFinite(e.frequency) && e.frequency >= 0 && Number.isFinite(e.lastUsed);
+}
+
+function getDocumentVersion(data: unknown, unversioned: number): number {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return 0;
+  const version = (data as { version?: unknown }).version;
+  if (version === undefined) return unversioned;
+  return typeof version === "number" && Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+const WORDS_SCHEMA: StorageSchema<StoredWords> = {
+  version: 4,
+  detect: data => (Array.isArray(data) ? 1 : getDocumentVersion(data, 2)),
+  migrations: {
+    // v1: a bare array of words
+    1: (words: unknown[]) => ({ words, entries: {} }),
+    // v2: { words, entries } before the version was stored with them
+    2: (doc: StoredWords) => ({ words: doc.words, entries: doc.entries }),
+    // v3: no pinned or blocked words
+    3: (doc: StoredWords) => ({ words: doc.words, entries: doc.entries, blocked: [] })
+  },
+  validate(doc: Partial<StoredWords>) {
+    if (!Array.isArray(doc.words)) throw new Error("GhostComplete: stored vocabulary has no words array");
+    const source = toDictionary<unknown>(doc.entries);
+    const entries: { [word: string]: WordEntry } = Object.create(null);
+    const seen = new Set<string>();
+    const words = doc.words.filter(word => {
+      if (typeof word !== "string" || !word.trim()) return false;
+      const lower = word.toLowerCase();
+      if (seen.has(lower)) return false;
+      seen.add(lower);
+      return true;
+    });
+    for (const word in source) {
+      const entry = source[word];
+      if (isValidEntry(entry)) entries[word] = copyEntry(entry);
+    }
+    const blocked = (Array.isArray(doc.blocked) ? doc.blocked : [])
+      .filter((word): word is string => typeof word === "string" && !!word.trim())
+      .map(word => word.toLowerCase());
+    const removedSource = toDictionary<unknown>(doc.removed);
+    const removed: { [word: string]: number } = Object.create(null);
+    for (const word in removedSource) {
+      const at = removedSource[word];
+      if (word.trim() && typeof at === "number" && Number.isFinite(at)) removed[word.toLowerCase()] = at;
+    }
+    return { words, entries, blocked, removed };
+  }
+};
+
+const TRANSITIONS_SCHEMA: StorageSchema<{ transitions: TransitionMap }> = {
+  version: 1,
+  detect: data => getDocumentVersion(data, 1),
+  migrations: {},
+  validate(doc: { transitions?: unknown }) {
+    if (!doc.transitions || typeof doc.transitions !== "object") throw new Error("GhostComplete: stored word pairs have no transitions map");
+    const source = toDictionary<unknown>(doc.transitions);
+    const transitions: TransitionMap = Object.create(null);
+    for (const word in source) {
+      const followers = toDictionary<unknown>(source[word]);
+      for (const next in followers) {
+        const entry = followers[next];
+        if (!isValidEntry(entry)) continue;
+        (transitions[word] = transitions[word] || Object.create(null))[next] = { frequency: entry.frequency, lastUsed: entry.lastUsed };
+      }
+    }
+    return { transitions };
+  }
+};
+
+// Runs the migrations from the stored version up to the current one; throws for data that isn't a usable document
+function upgradeDocument<T>(schema: StorageSchema<T>, data: unknown): T {
+  let version = schema.detect(data);
+  if (version < 1) throw new Error("GhostComplete: stored data is not in a known format");
+  let doc: any = data;
+  for (; version < schema.version; version++) {
+    const step = schema.migrations[version];
+    if (!step) throw new Error(`GhostComplete: no migration from version ${version}`);
+    doc = step(doc);
+  }
+  return schema.validate(doc);
+}
+
+const EXPORT_FORMAT: VocabularyExport["format"] = "ghostcomplete-vocabulary";
+const EXPORT_VERSION = 1;
+
+// Accepts an export document (object or JSON string) or a plain newline-separated word list
+function parseVocabulary(data: unknown, now = Date.now()): { stored: StoredWords; transitions: unknown } {
+  if (typeof data === "string" && !data.trim().startsWith("{")) {
+    const stored: StoredWords = { words: [], entries: Object.create(null) };
+    data.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(word => {
+      const lower = word.toLowerCase();
+      if (stored.entries[lower]) return;
+      stored.words.push(word);
+      stored.entries[lower] = { frequency: 1, lastUsed: now };
+    });
+    return { stored, transitions: null };
+  }
+
+  const doc = (typeof data === "string" ? JSON.parse(data) : data) as Partial<VocabularyExport> | null;
+  if (!doc || typeof doc !== "object" || doc.format !== EXPORT_FORMAT) {
+    throw new Error("GhostComplete: not a vocabulary export");
+  }
+  if (typeof doc.version !== "number" || doc.version > EXPORT_VERSION) {
+    throw new Error(`GhostComplete: unsupported vocabulary version ${doc.version}`);
+  }
+  if (!Array.isArray(doc.words)) throw new Error("GhostComplete: vocabulary has no words array");
+
+  const stored: StoredWords = { words: [], entries: Object.create(null) };
+  doc.words.forEach((item, index) => {
+    const valid = item && typeof item.word === "string" && item.word.trim()
+      && Number.isFinite(item.frequency) && item.frequency >= 0 && Number.isFinite(item.lastUsed);
+    if (!valid) throw new Error(`GhostComplete: invalid word entry at index ${index}`);
+    const word = item.word.trim();
+    const lower = word.toLowerCase();
+    if (!stored.entries[lower]) stored.words.push(word);
+    stored.entries[lower] = mergeEntry(stored.entries[lower], copyEntry(item), "max");
+  });
+  if (Array.isArray(doc.blocked)) {
+    stored.blocked = doc.blocked.filter(word => typeof word === "string" && word.trim()).map(word => word.toLowerCase());
+  }
+  return { stored, transitions: doc.transitions ? { transitions: doc.transitions } : null };
+}
+
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const data = new Map<string, unknown>();
+  return {
+    get: key => (data.has(key) ? data.get(key) : null),
+    set: (key, value) => { data.set(key, value); },
+    remove: key => { data.delete(key); },
+    keys: () => Array.from(data.keys())
+  };
+}
+
+// JSON-encodes into Web Storage, falling back to memory where access throws (e.g. some privacy modes)
+function createWebStorageAdapter(resolve: () => Storage): StorageAdapter {
+  let storage: Storage | null | undefined;
+  const fallback = createMemoryStorageAdapter();
+  const getStorage = (): Storage | null => {
+    if (storage === undefined) {
+      try {
+        storage = resolve();
+      } catch (e) {
+        storage = null;
+      }
+    }
+    return storage;
+  };
+
+  return {
+    get(key) {
+      const s = getStorage();
+      if (!s) return fallback.get(key);
+      const raw = s.getItem(key);
+      if (raw === null) return null;
+      // Undecodable JSON comes back as the raw string, for the schema check to set aside
+      try {
+        return JSON.parse(raw);
+      } catch (e) {
+        return raw;
+      }
+    },
+    set(key, value) {
+      const s = getStorage();
+      if (!s) return fallback.set(key, value);
+      s.setItem(key, JSON.stringify(value));
+    },
+    remove(key) {
+      const s = getStorage();
+      if (!s) return fallback.remove(key);
+      s.removeItem(key);
+    },
+    keys() {
+      const s = getStorage();
+      if (!s) return fallback.keys();
+      const keys: string[] = [];
+      for (let i = 0; i < s.length; i++) {
+        const key = s.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    }
+  };
+}
+
+export function createLocalStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter(() => window.localStorage);
+}
+
+export function createSessionStorageAdapter(): StorageAdapter {
+  return createWebStorageAdapter(() => window.sessionStorage);
+}
+
+// Stores values as structured clones, so large vocabularies skip JSON encoding entirely
+export function createIndexedDBStorageAdapter(dbName = "ghostcomplete", storeName = "vocabulary"): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => { request.result.createObjectStore(storeName); };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    open().then(db => new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  return {
+    get: key => run("readonly", store => store.get(key)).then(value => (value === undefined ? null : value)),
+    set: (key, value) => run("readwrite", store => store.put(value, key)).then(() => undefined),
+    remove: key => run("readwrite", store => store.delete(key)).then(() => undefined),
+    keys: () => run("readonly", store => store.getAllKeys()).then(keys => keys.map(String))
+  };
+}
+
+// Keys this library writes or once wrote, with or without a namespace; the only ones migrate() touches
+const STORAGE_KEY_PATTERN = /(?:^|:)ac_[wn](?:_.+)?$/;
+const ENCRYPTED_FORMAT = "ghostcomplete-aes-gcm";
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedBlob {
+  format: typeof ENCRYPTED_FORMAT;
+  iv: string;
+  data: string;
+  // Present when the key came from a passphrase
+  salt?: string;
+  iterations?: number;
+}
+
+// Opens blobs a single key can decrypt and seals new ones with it
+interface BlobKey {
+  forWrite(): Promise<{ key: CryptoKey; salt?: string; iterations?: number }>;
+  forRead(blob: EncryptedBlob): Promise<CryptoKey | null>;
+}
+
+function isEncryptedBlob(value: unknown): value is EncryptedBlob {
+  return !!value && typeof value === "object" && (value as EncryptedBlob).format === ENCRYPTED_FORMAT;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = typeof crypto !== "undefined" ? crypto.subtle : undefined;
+  if (!subtle) throw new Error("GhostComplete: encryption needs WebCrypto, which is only available in secure contexts");
+  return subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+// Typed as BufferSource, which newer DOM typings no longer accept a plain Uint8Array as
+function fromBase64(text: string): BufferSource {
+  return Uint8Array.from(atob(text), ch => ch.charCodeAt(0)) as BufferSource;
+}
+
+function derivePassphraseKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  return Promise.resolve().then(() => {
+    const subtle = getSubtle();
+    return subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"])
+      .then(base => subtle.deriveKey({ name: "PBKDF2", salt, iterations, hash: "SHA-256" }, base, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]));
+  });
+}
+
+// Derivation and import are lazy, so creating an adapter never touches WebCrypto
+function createBlobKey(spec: EncryptionKey): BlobKey {
+  if ("passphrase" in spec) {
+    const derived = new Map<string, Promise<CryptoKey>>();
+    const derive = (salt: string, iterations: number): Promise<CryptoKey> => {
+      const id = `${iterations}:${salt}`;
+      if (!derived.has(id)) derived.set(id, derivePassphraseKey(spec.passphrase, fromBase64(salt), iterations));
+      return derived.get(id)!;
+    };
+    let salt = "";
+    const iterations = spec.iterations || PBKDF2_ITERATIONS;
+    return {
+      forWrite: () => {
+        salt = salt || toBase64(crypto.getRandomValues(new Uint8Array(16)));
+        return derive(salt, iterations).then(key => ({ key, salt, iterations }));
+      },
+      forRead: blob => (blob.salt ? derive(blob.salt, blob.iterations || PBKDF2_ITERATIONS) : Promise.resolve(null))
+    };
+  }
+  let imported: Promise<CryptoKey> | null = null;
+  const getKey = (): Promise<CryptoKey> => imported || (imported = Promise.resolve().then(() =>
+    spec instanceof ArrayBuffer || ArrayBuffer.isView(spec)
+      ? getSubtle().importKey("raw", spec as BufferSource, "AES-GCM", false, ["encrypt", "decrypt"])
+      : spec));
+  return {
+    forWrite: () => getKey().then(key => ({ key })),
+    forRead: blob => (blob.salt ? Promise.resolve(null) : getKey())
+  };
+}
+
+function encryptValue(blobKey: BlobKey, value: unknown): Promise<EncryptedBlob> {
+  return blobKey.forWrite().then(({ key, salt, iterations }) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    return getSubtle().encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(value)))
+      .then(data => {
+        const blob: EncryptedBlob = { format: ENCRYPTED_FORMAT, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+        if (salt) Object.assign(blob, { salt, iterations });
+        return blob;
+      });
+  });
+}
+
+// Tries each key in turn, since GCM's tag check rejects the wrong one; also resolves which key opened the blob
+function decryptValue(blobKeys: BlobKey[], blob: EncryptedBlob, index = 0): Promise<{ value: unknown; index: number }> {
+  if (index >= blobKeys.length) return Promise.reject(new Error("GhostComplete: no key can decrypt the stored data"));
+  return blobKeys[index].forRead(blob)
+    .then(key => {
+      if (!key) throw new Error("GhostComplete: key does not apply");
+      return getSubtle().decrypt({ name: "AES-GCM", iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+    })
+    .then(plain => ({ value: JSON.parse(new TextDecoder().decode(plain)), index }), () => decryptValue(blobKeys, blob, index + 1));
+}
+
+// Wraps another backend so learned data is stored as AES-GCM blobs; plaintext from before is still read and re-encrypted
+export function createEncryptedStorageAdapter(storage: StorageAdapter | StorageKind, encryption: EncryptionOptions): EncryptedStorageAdapter {
+  const inner = typeof storage === "string" ? createStorageAdapter(storage) : storage;
+  let blobKeys = [encryption.key, ...(encryption.previousKeys || [])].map(createBlobKey);
+
+  const write = (key: string, value: unknown): Promise<void> =>
+    encryptValue(blobKeys[0], value).then(blob => inner.set(key, blob));
+
+  // `stale` marks plaintext and blobs under a previous key
+  const open = (key: string): Promise<{ value: unknown; stale: boolean }> =>
+    Promise.resolve().then(() => inner.get(key)).then(stored => {
+      if (stored === null || stored === undefined) return { value: null, stale: false };
+      if (!isEncryptedBlob(stored)) return { value: stored, stale: true };
+      return decryptValue(blobKeys, stored).then(({ value, index }) => ({ value, stale: index > 0 }));
+    });
+
+  // Blobs no key can open are left untouched
+  const migrate = (): Promise<number> =>
+    Promise.resolve().then(() => inner.keys()).then(keys => Promise.all(keys
+      .filter(key => STORAGE_KEY_PATTERN.test(key))
+      .map(key => open(key)
+        .then(({ value, stale }) => (stale && value !== null ? write(key, value).then(() => 1) : 0))
+        .catch(() => 0))))
+      .then(counts => counts.reduce((sum: number, count) => sum + count, 0));
+
+  return {
+    get: key => open(key).then(({ value, stale }) => {
+      if (stale && STORAGE_KEY_PATTERN.test(key)) write(key, value).catch(() => {});
+      return value;
+    }),
+    set: (key, value) => write(key, value),
+    remove: key => inner.remove(key),
+    keys: () => inner.keys(),
+    migrate,
+    rotateKey(key) {
+      blobKeys = [createBlobKey(key), ...blobKeys];
+      return migrate();
+    }
   };
+}
 
-  let globalConfig = { ...DEFAULT_CONFIG };
+function createStorageAdapter(kind: StorageKind): StorageAdapter {
+  switch (kind) {
+    case "session": return createSessionStorageAdapter();
+    case "memory": return createMemoryStorageAdapter();
+    case "indexeddb": return createIndexedDBStorageAdapter();
+    default: return createLocalStorageAdapter();
+  }
+}
+
+const FIELD_ATTRIBUTES = ["autocomplete", "spellcheck", "autocorrect"];
+
+function getFieldAttributes(element: HTMLElement): { [name: string]: string | null } {
+  const values: { [name: string]: string | null } = {};
+  FIELD_ATTRIBUTES.forEach(name => { values[name] = element.getAttribute(name); });
+  return values;
+}
+
+// Fields that are never attached to, so their values are neither learned nor shown beside
+const SECRET_INPUT_TYPES = ["password", "hidden"];
+const SECRET_AUTOCOMPLETE = ["one-time-code", "current-password", "new-password"];
+// Fields that get suggestions but are never learned from
+const SENSITIVE_INPUT_TYPES = ["email", "tel", "number"];
+const SENSITIVE_AUTOCOMPLETE = /^(?:off|email|tel(?:-.+)?|cc-.+|username|street-address|address-line\d|postal-code|bday(?:-.+)?)$/;
+
+function getAutocompleteTokens(el: HTMLElement): string[] {
+  return (el.getAttribute("autocomplete") || "").toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Tag checks rather than instanceof, which fails for elements from another frame
+function getInputType(el: HTMLElement): string {
+  return el.tagName === "INPUT" ? (el as HTMLInputElement).type.toLowerCase() : "";
+}
+
+// Read-only and disabled fields can't take a completion
+function isLockedField(el: HTMLElement): boolean {
+  const field = el as HTMLInputElement | HTMLTextAreaElement;
+  return (el.tagName === "INPUT" || el.tagName === "TEXTAREA") && (field.readOnly || field.disabled);
+}
+
+// data-autocomplete-<name>; a bare attribute counts as true, "false" as false
+function readFlag(el: Element, name: string): boolean | undefined {
+  const value = el.getAttribute(`data-autocomplete-${name}`);
+  return value === null ? undefined : value !== "false";
+}
+
+function isSecretField(el: HTMLElement): boolean {
+  const type = getInputType(el);
+  return SECRET_INPUT_TYPES.includes(type) || getAutocompleteTokens(el).some(t => SECRET_AUTOCOMPLETE.includes(t));
+}
+
+function isSensitiveField(el: HTMLElement): boolean {
+  const type = getInputType(el);
+  return isSecretField(el) || SENSITIVE_INPUT_TYPES.includes(type) || getAutocompleteTokens(el).some(t => SENSITIVE_AUTOCOMPLETE.test(t));
+}
+
+// Personal data and credentials that tend to be typed as a single token
+function isSensitiveToken(word: string): boolean {
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(word)) return true; // email
+  if (/^\d(?:[ -]?\d){12,18}$/.test(word)) return true; // card number
+  // Phone or any other number; typed in groups, each group is one of these on its own
+  if (/^\+?[\p{N}().\-\/]+$/u.test(word) && /\p{N}/u.test(word)) return true;
+  if (/^(?:0x)?[0-9a-f]{16,}$/i.test(word)) return true; // hashes, keys, tokens
+  return /^[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(word); // uuid
+}
+
+function matchesPattern(pattern: WordPattern, word: string): boolean {
+  return (Array.isArray(pattern) ? pattern : [pattern]).some(p => {
+    try {
+      const re = typeof p === "string" ? new RegExp(p) : p;
+      re.lastIndex = 0;
+      return re.test(word);
+    } catch {
+      return false;
+    }
+  });
+}
+
+const DEFAULT_WORD_CHARS = /[\p{L}\p{M}\p{N}_'’-]/u;
+const DEFAULT_TRIGGERS = ["@", "#", ":"];
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_EDGE = /[\p{L}\p{M}\p{N}]/u;
+const compiledWordChars = new Map<string, RegExp>();
+const segmenters = new Map<string, WordSegmenter | null>();
+
+function charAt(text: string, index: number): string {
+  const code = text.codePointAt(index);
+  return code === undefined ? "" : String.fromCodePoint(code);
+}
+
+function charBefore(text: string, index: number): string {
+  if (index <= 0) return "";
+  const low = text.charCodeAt(index - 1);
+  return low >= 0xdc00 && low <= 0xdfff && index > 1 ? text.slice(index - 2, index) : text[index - 1];
+}
+
+function getSegmenter(locale = ""): WordSegmenter | null {
+  if (!segmenters.has(locale)) {
+    const Segmenter = (Intl as { Segmenter?: new (locale?: string, options?: object) => WordSegmenter }).Segmenter;
+    let segmenter: WordSegmenter | null = null;
+    try { if (Segmenter) segmenter = new Segmenter(locale || undefined, { granularity: "word" }); } catch {}
+    segmenters.set(locale, segmenter);
+  }
+  return segmenters.get(locale)!;
+}
+
+function createTokenizer(config: AutocompleteConfig): Tokenizer {
+  let pattern = DEFAULT_WORD_CHARS;
+  if (config.wordChars instanceof RegExp) {
+    pattern = config.wordChars;
+  } else if (typeof config.wordChars === "string") {
+    if (!compiledWordChars.has(config.wordChars)) {
+      try { compiledWordChars.set(config.wordChars, new RegExp(config.wordChars, "u")); } catch { compiledWordChars.set(config.wordChars, DEFAULT_WORD_CHARS); }
+    }
+    pattern = compiledWordChars.get(config.wordChars)!;
+  }
+  return {
+    isWordChar: ch => {
+      if (!ch || /\s/.test(ch)) return false;
+      pattern.lastIndex = 0;
+      return pattern.test(ch);
+    },
+    triggers: Array.isArray(config.triggers) ? config.triggers : DEFAULT_TRIGGERS,
+    trim: config.trimPunctuation !== false,
+    segmenter: getSegmenter(config.locale)
+  };
+}
+
+// A trigger only counts at the start of a run or after punctuation, so "user@host" isn't a mention
+function isTriggerAt(text: string, index: number, tokenizer: Tokenizer): boolean {
+  const ch = charAt(text, index);
+  return tokenizer.triggers.includes(ch) && !tokenizer.isWordChar(charBefore(text, index));
+}
+
+// Runs of word characters, split further by Intl.Segmenter where the script has no spaces
+function splitRun(text: string, start: number, end: number, tokenizer: Tokenizer): [number, number][] {
+  const run = text.slice(start, end);
+  if (!tokenizer.segmenter || !UNSPACED_SCRIPT.test(run)) return [[start, end]];
+  const parts: [number, number][] = [];
+  for (const { segment, index, isWordLike } of tokenizer.segmenter.segment(run)) {
+    if (isWordLike !== false) parts.push([start + index, start + index + segment.length]);
+  }
+  return parts;
+}
+
+function findTokens(text: string, tokenizer: Tokenizer): WordBounds[] {
+  const tokens: WordBounds[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const runStart = i;
+    let ch = charAt(text, i);
+    while (ch && tokenizer.isWordChar(ch)) {
+      i += ch.length;
+      ch = charAt(text, i);
+    }
+    if (i === runStart) {
+      i += ch.length;
+      continue;
+    }
+    splitRun(text, runStart, i, tokenizer).forEach(([start, end]) => {
+      if (tokenizer.trim) {
+        while (start < end && !WORD_EDGE.test(charAt(text, start))) start += charAt(text, start).length;
+        while (end > start && !WORD_EDGE.test(charBefore(text, end))) end -= charBefore(text, end).length;
+      }
+      if (start === end) return;
+      const before = charBefore(text, start);
+      const trigger = before && isTriggerAt(text, start - before.length, tokenizer) ? before : "";
+      if (trigger) start -= trigger.length;
+      tokens.push({ start, end, word: text.slice(start, end), trigger });
+    });
+  }
+  return tokens;
+}
+
+// The whitespace-delimited run around an index, punctuation and all
+function getRunBounds(text: string, index: number): WordBounds {
+  if (!text) return { start: 0, end: 0, word: "" };
+  let start = index;
+  while (start > 0 && !/\s/.test(text[start - 1])) start--;
+  let end = index;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+  return { start, end, word: text.slice(start, end) };
+}
+
+function trimPunctuation(word: string): string {
+  return word.replace(/^[^\p{L}\p{M}\p{N}+]+|[^\p{L}\p{M}\p{N}]+$/gu, "");
+}
+
+// Elements that start a new line when a contenteditable is read as plain text
+const BLOCK_TAGS = new Set(["ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DD", "DIV", "DL", "DT", "FIGCAPTION", "FIGURE", "FOOTER", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "LI", "MAIN", "NAV", "OL", "P", "PRE", "SECTION", "TABLE", "TD", "TH", "TR", "UL"]);
+
+// Roots of every installed instance, each with the release callbacks of the instances on it in install order.
+// The innermost root owns an element, and the latest instance on it handles the element.
+const installedRoots = new Map<Node, Array<() => void>>();
+
+// The instance installed before on the same root gives up the elements it had there
+function addInstalledRoot(root: Node, release: () => void): void {
+  const owners = installedRoots.get(root) || [];
+  const previous = owners[owners.length - 1];
+  owners.push(release);
+  installedRoots.set(root, owners);
+  previous?.();
+}
+
+function removeInstalledRoot(root: Node, release: () => void): void {
+  const owners = (installedRoots.get(root) || []).filter(owner => owner !== release);
+  if (owners.length > 0) installedRoots.set(root, owners);
+  else installedRoots.delete(root);
+}
+
+function getRootOwner(root: Node): (() => void) | undefined {
+  const owners = installedRoots.get(root);
+  return owners && owners[owners.length - 1];
+}
+
+// Steps out of shadow roots to their host and out of same-origin frames to the <iframe>
+function getComposedParent(node: Node): Node | null {
+  if (node.nodeType === Node.DOCUMENT_NODE) {
+    try { return (node as Document).defaultView?.frameElement || null; } catch { return null; }
+  }
+  if (node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && (node as ShadowRoot).host) return (node as ShadowRoot).host;
+  return node.parentNode;
+}
+
+function findInstalledRoot(node: Node): Node | null {
+  for (let current: Node | null = node; current; current = getComposedParent(current)) {
+    if (installedRoots.has(current)) return current;
+  }
+  return null;
+}
+
+// Events are retargeted to the shadow host outside an open shadow root; the composed path still starts at the real target
+function getEventTarget(e: Event): HTMLElement {
+  return ((typeof e.composedPath === "function" && e.composedPath()[0]) || e.target) as HTMLElement;
+}
+
+function getViewOf(node: Node): Window {
+  return (node.ownerDocument || (node as Document)).defaultView || window;
+}
+
+// Moves page coordinates of the element's document into the overlay's, across same-origin iframes
+function getFrameShift(element: HTMLElement, overlay: HTMLElement): { left: number; top: number } {
+  const from = getViewOf(element);
+  const to = getViewOf(overlay);
+  if (from === to) return { left: 0, top: 0 };
+  let left = to.scrollX - from.scrollX;
+  let top = to.scrollY - from.scrollY;
+  for (let view = from; view !== to; ) {
+    let frame: Element | null = null;
+    try { frame = view.frameElement; } catch {}
+    if (!frame) return { left: 0, top: 0 };
+    const rect = frame.getBoundingClientRect();
+    const cs = getViewOf(frame).getComputedStyle(frame);
+    left += rect.left + frame.clientLeft + (parseFloat(cs.paddingLeft) || 0);
+    top += rect.top + frame.clientTop + (parseFloat(cs.paddingTop) || 0);
+    view = getViewOf(frame);
+  }
+  return { left, top };
+}
+
+// Gives each instance's listbox a unique id for aria-controls
+let instanceCounter = 0;
+
+// Fallbacks for the --gc-* custom properties; a variable set anywhere above the popup always wins
+const THEMES: { [theme in ThemeName]: { [name: string]: string } } = {
+  light: {
+    "popup-bg": "#ffffff",
+    "popup-color": "#333333",
+    "popup-border": "rgba(0,0,0,0.12)",
+    "popup-shadow": "0 8px 32px rgba(0,0,0,0.1)",
+    "row-hover-bg": "rgba(59,130,246,0.05)",
+    "row-selected-bg": "rgba(59,130,246,0.1)",
+    "row-selected-color": "rgb(59,130,246)",
+    "ghost-color": "rgba(0,0,0,0.35)",
+    "hint-border": "rgba(0,0,0,0.06)",
+    "scrollbar-color": "rgba(0,0,0,0.2)"
+  },
+  dark: {
+    "popup-bg": "#1e1e1e",
+    "popup-color": "#e0e0e0",
+    "popup-border": "rgba(255,255,255,0.12)",
+    "popup-shadow": "0 8px 32px rgba(0,0,0,0.5)",
+    "row-hover-bg": "rgba(59,130,246,0.15)",
+    "row-selected-bg": "rgba(59,130,246,0.2)",
+    "row-selected-color": "rgb(147,197,253)",
+    "ghost-color": "rgba(255,255,255,0.35)",
+    "hint-border": "rgba(255,255,255,0.06)",
+    "scrollbar-color": "rgba(255,255,255,0.2)"
+  },
+  // System colors, so forced-colors modes keep their own palette
+  "high-contrast": {
+    "popup-bg": "Canvas",
+    "popup-color": "CanvasText",
+    "popup-border": "CanvasText",
+    "popup-shadow": "none",
+    "row-hover-bg": "Canvas",
+    "row-selected-bg": "Highlight",
+    "row-selected-color": "HighlightText",
+    "ghost-color": "GrayText",
+    "hint-border": "CanvasText",
+    "scrollbar-color": "CanvasText"
+  }
+};
+
+const SHARED_VARS: { [name: string]: string } = {
+  "popup-radius": "8px",
+  "popup-padding": "8px",
+  "popup-font": "-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif",
+  "popup-font-size": "13px",
+  "row-padding": "8px 12px",
+  "row-radius": "6px",
+  "match-weight": "600",
+  "detail-opacity": "0.6",
+  "hint-opacity": "0.6"
+};
+
+type StylePart = "popup" | "row" | "rowSelected" | "hint" | "ghost" | "icon" | "iconImage" | "detail" | "actions" | "action" | "panel" | "panelToolbar" | "panelSearch" | "panelTable" | "panelSummary";
+
+// Where each part lives in the generated stylesheet; the theme attribute sits on the popup and ghost
+const PART_SELECTORS: { [part in StylePart]: (themed: string) => string } = {
+  popup: themed => `[data-gc-popup]${themed}`,
+  row: themed => `[data-gc-popup]${themed} [data-sugg-index]`,
+  rowSelected: themed => `[data-gc-popup]${themed} [data-sugg-index][aria-selected=true]`,
+  hint: themed => `[data-gc-popup]${themed} [data-sugg-hint]`,
+  ghost: themed => `[data-gc-ghost]${themed}`,
+  icon: themed => `[data-gc-popup]${themed} [data-sugg-icon]`,
+  iconImage: themed => `[data-gc-popup]${themed} img[data-sugg-icon]`,
+  detail: themed => `[data-gc-popup]${themed} [data-sugg-detail]`,
+  actions: themed => `[data-gc-popup]${themed} [data-sugg-actions]`,
+  action: themed => `[data-gc-popup]${themed} [data-sugg-action]`,
+  panel: themed => `[data-gc-panel]${themed}`,
+  panelToolbar: themed => `[data-gc-panel]${themed} [data-gc-panel-toolbar]`,
+  panelSearch: themed => `[data-gc-panel]${themed} [data-gc-panel-search]`,
+  panelTable: themed => `[data-gc-panel]${themed} [data-gc-panel-table]`,
+  panelSummary: themed => `[data-gc-panel]${themed} [data-gc-panel-summary]`
+};
+
+const partStylesCache: { [theme: string]: { [part in StylePart]: string } } = {};
+
+function cssVar(theme: ThemeName, name: string): string {
+  return `var(--gc-${name},${THEMES[theme][name] ?? SHARED_VARS[name]})`;
+}
+
+// Visual declarations per part, applied inline or written to the stylesheet depending on styleMode
+function getPartStyles(theme: ThemeName): { [part in StylePart]: string } {
+  if (partStylesCache[theme]) return partStylesCache[theme];
+  const v = (name: string) => cssVar(theme, name);
+  return (partStylesCache[theme] = {
+    popup: `background:${v("popup-bg")};color:${v("popup-color")};border:1px solid ${v("popup-border")};box-shadow:${v("popup-shadow")};border-radius:${v("popup-radius")};padding:${v("popup-padding")};font-size:${v("popup-font-size")};font-family:${v("popup-font")};min-width:140px;max-width:320px;backdrop-filter:blur(12px);-webkit-backdrop-filter:blur(12px);scrollbar-width:thin;scrollbar-color:${v("scrollbar-color")} transparent`,
+    row: `padding:${v("row-padding")};border-radius:${v("row-radius")};cursor:pointer;white-space:nowrap;transition:all 0.15s ease;font-weight:400;display:flex;align-items:center;background:transparent;color:inherit;transform:translateX(0)`,
+    rowSelected: `background:${v("row-selected-bg")};color:${v("row-selected-color")};transform:translateX(2px)`,
+    hint: `font-size:11px;opacity:${v("hint-opacity")};margin-top:8px;padding:0 4px;border-top:1px solid ${v("hint-border")}`,
+    ghost: `color:${v("ghost-color")}`,
+    icon: "margin-right:8px;flex-shrink:0",
+    iconImage: "width:20px;height:20px;border-radius:50%;object-fit:cover",
+    detail: `margin-left:12px;opacity:${v("detail-opacity")};font-size:12px;overflow:hidden;text-overflow:ellipsis`,
+    actions: "margin-left:auto;padding-left:12px;display:flex;gap:4px;flex-shrink:0",
+    action: `all:unset;cursor:pointer;padding:0 4px;border-radius:4px;font-size:12px;opacity:${v("detail-opacity")}`,
+    panel: `background:${v("popup-bg")};color:${v("popup-color")};border:1px solid ${v("popup-border")};border-radius:${v("popup-radius")};padding:${v("popup-padding")};font-size:${v("popup-font-size")};font-family:${v("popup-font")}`,
+    panelToolbar: "display:flex;gap:8px;margin-bottom:8px",
+    panelSearch: "flex:1",
+    panelTable: "width:100%;border-collapse:collapse;text-align:left",
+    panelSummary: "margin-top:8px"
+  });
+}
+
+function buildStyleText(mode: StyleMode): string {
+  let css = "input[data-autocomplete],textarea[data-autocomplete]{font-family:inherit}[data-sugg-match]{font-weight:var(--gc-match-weight,600)}";
+  // Row actions only show on the row under the pointer or the highlighted one, and on a pinned word
+  css += "[data-sugg-index]:not(:hover):not([aria-selected=true]) [data-sugg-action]:not([aria-pressed=true]){visibility:hidden}";
+  // Inline row backgrounds can only be beaten with !important
+  const important = mode === "inline" ? "!important" : "";
+  (Object.keys(THEMES) as ThemeName[]).forEach(theme => {
+    const themed = `[data-gc-theme="${theme}"]`;
+    const v = (name: string) => cssVar(theme, name);
+    if (mode === "classes") {
+      const styles = getPartStyles(theme);
+      (Object.keys(PART_SELECTORS) as StylePart[]).forEach(part => { css += `${PART_SELECTORS[part](themed)}{${styles[part]}}`; });
+    }
+    css += `[data-gc-popup]${themed} [data-sugg-index]:not([aria-selected=true]):hover{background:${v("row-hover-bg")}${important}}`;
+    css += `[data-gc-popup]${themed} [data-sugg-action]:hover,[data-gc-popup]${themed} [data-sugg-action][aria-pressed=true]{opacity:1${important}}`;
+    css += `[data-gc-popup]${themed}::-webkit-scrollbar{width:6px}[data-gc-popup]${themed}::-webkit-scrollbar-track{background:transparent}[data-gc-popup]${themed}::-webkit-scrollbar-thumb{background:${v("scrollbar-color")};border-radius:3px}`;
+  });
+  return css;
+}
+
+function resolveTheme(theme: ThemeName | "auto" = "auto"): ThemeName {
+  if (theme in THEMES) return theme as ThemeName;
+  const matches = (query: string) => typeof window.matchMedia === "function" && window.matchMedia(query).matches;
+  if (matches("(forced-colors: active)") || matches("(prefers-contrast: more)")) return "high-contrast";
+  return matches("(prefers-color-scheme: dark)") ? "dark" : "light";
+}
+
+export function createGhostComplete(options: GhostCompleteOptions = {}) {
+  const namespace = options.namespace ? `${options.namespace}:` : "";
+
+  function getRoot(): Document | ShadowRoot | HTMLElement {
+    return options.root || document;
+  }
+
+  // Overlays go into the element's shadow root or frame, so they share its styles and coordinate space
+  function getContainer(element?: HTMLElement): HTMLElement | ShadowRoot {
+    if (options.container) return options.container;
+    // No <body> yet when the script is loaded from <head>
+    if (!element) return document.body || document.documentElement;
+    const root = element.getRootNode();
+    if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) return root as ShadowRoot;
+    return element.ownerDocument.body || document.body;
+  }
+
+  // Follows focus into shadow roots and same-origin frames, which report only their host as active
+  function getActiveElement(): HTMLElement | null {
+    let active = document.activeElement as HTMLElement | null;
+    while (active) {
+      let inner = active.shadowRoot?.activeElement || null;
+      if (!inner && active.tagName === "IFRAME") {
+        try { inner = (active as HTMLIFrameElement).contentDocument?.activeElement || null; } catch {}
+      }
+      if (!inner) break;
+      active = inner as HTMLElement;
+    }
+    return active;
+  }
+
+  // Roots this instance listens on: its own, plus shadow roots and frame documents reached through init or addRoot
+  const listenerRoots = new Set<Node>();
+  // An event seen on a shadow root is seen again on the document around it
+  const seenEvents = new WeakSet<Event>();
+
+  function isInScope(target: HTMLElement): boolean {
+    const owner = findInstalledRoot(target);
+    return owner !== null && listenerRoots.has(owner) && getRootOwner(owner) === releaseElements;
+  }
+
+  // Called when a later instance is installed on one of our roots
+  function releaseElements(): void {
+    Array.from(elementStates.keys()).forEach(element => {
+      if (!isInScope(element)) detachElement(element);
+    });
+  }
+
+  // The group's scoreWord, or the decay score with its half-life
+  function getScoreFunction(group = ""): ScoreFunction {
+    const config = getGroupConfig(group);
+    return config.scoreWord || ((entry, _word, now) => decayScore(entry, now, config.HALF_LIFE));
+  }
+
+  function getWordScorer(group = "", now = Date.now()): (word: string) => number {
+    const cacheKey = group || "default";
+    const entries = wordsCacheMap[cacheKey]?.entries || {};
+    const scoreWord = getScoreFunction(group);
+    return (word: string) => scoreWord(entries[word.toLowerCase()] || EMPTY_ENTRY, word, now);
+  }
+
+  let globalConfig: AutocompleteConfig = { ...DEFAULT_CONFIG, ...options.config };
   const groupConfigs: { [key: string]: AutocompleteConfig } = Object.create(null);
 
   function getGroupConfig(group = ""): AutocompleteConfig {
@@ -87,105 +1611,320 @@
   let ghost: HTMLDivElement | null = null;
   let popup: HTMLDivElement | null = null;
   let mirror: HTMLDivElement | null = null;
+  let liveRegion: HTMLDivElement | null = null;
+  let announcedCount = 0;
+  const listboxId = `ghostcomplete-${++instanceCounter}-listbox`;
+  const styleMode: StyleMode = options.styleMode || "inline";
+  let activeTheme: ThemeName = "light";
+  // Decided on first focus, before we set autocomplete="off" on the element ourselves
+  const privateFields = new WeakMap<HTMLElement, boolean>();
 
   const elementStates = new Map<HTMLElement, {
     group: string;
-    suggestions: string[];
+    suggestions: SuggestionItem[];
+    suggestionType: SuggestEventDetail["type"];
     selectedIndex: number;
     isComposing: boolean;
     debounceTimer: number | null;
     rafId: number | null;
+    sourceRequest: SourceRequest | null;
+    // Whether role="combobox" was added by us and should be removed on detach
+    ownsRole: boolean;
+    partial: PartialAccept | null;
+    // The field's own autocomplete, spellcheck and autocorrect, put back on detach
+    fieldAttributes: { [name: string]: string | null };
+    // Set once next/prev moved the highlight; the jump actions wait for it so Home, End and the page keys still move the caret while typing
+    navigated: boolean;
   }>();
 
-  const wordsCacheMap: { [key: string]: { words: string[], entries: { [word: string]: WordEntry } } } = Object.create(null);
+  const wordsCacheMap: { [key: string]: WordsCache } = Object.create(null);
   const trieMap: { [key: string]: Trie } = Object.create(null);
-  const pendingStorage: PendingStorage = { words: new Set() };
+  const transitionsCacheMap: { [key: string]: TransitionMap } = Object.create(null);
+  // Open panels by cache key, refreshed whenever their group's words change
+  const panels: { [key: string]: Set<WordPanel> } = Object.create(null);
+  const sourceMap: { [key: string]: RegisteredSource[] } = Object.create(null);
+  let sourceIdCounter = 0;
+  const pendingStorage: PendingStorage = { words: new Set(), replaced: new Set(), legacy: new Map() };
   const elementWordCount = new WeakMap<HTMLElement, number>();
 
   function getStorageKeys(group: string) {
     const base = group ? `_${group}` : "";
     return {
-      wordsKey: `ac_w${base}_v3`,
+      wordsKey: `${namespace}ac_w${base}_v3`,
+      ngramsKey: `${namespace}ac_n${base}_v1`,
     };
   }
 
-  class TrieNode {
-    children: { [key: string]: TrieNode } = Object.create(null);
-    isWord = false;
+  const namedAdapters: { [kind: string]: StorageAdapter } = Object.create(null);
+  const loadedGroups = new Set<string>();
+  let syncChannel: BroadcastChannel | null = null;
+  const loadPromises: { [key: string]: Promise<void> } = Object.create(null);
+  // Keys whose stored data couldn't be read, e.g. encrypted with a key we don't have; not overwritten until a read succeeds
+  const unreadableKeys = new Set<string>();
+  // Keys whose corrupt data has already been copied aside and reported
+  const quarantinedKeys = new Set<string>();
+
+  function getStorage(group = ""): StorageAdapter {
+    const storage = getGroupConfig(group).storage || options.storage || "local";
+    if (typeof storage !== "string") return storage;
+    return (namedAdapters[storage] = namedAdapters[storage] || createStorageAdapter(storage));
   }
 
-  class Trie {
-    root = new TrieNode();
+  // Runs the hook, then dispatches the DOM event; returns false if either cancelled it
+  function emit<K extends keyof GhostCompleteEventMap>(element: HTMLElement, name: K, detail: GhostCompleteEventMap[K]): boolean {
+    const event = new CustomEvent<GhostCompleteEventMap[K]>(`ghostcomplete:${name}`, {
+      bubbles: true,
+      composed: true,
+      cancelable: name.startsWith("before"),
+      detail
+    });
+    const hook = options.on?.[name] as ((event: CustomEvent<GhostCompleteEventMap[K]>, element: HTMLElement) => void) | undefined;
+    try { hook?.(event, element); } catch {}
+    element.dispatchEvent(event);
+    return !event.defaultPrevented;
+  }
 
-    insert(word: string): void {
-      if (!word) return;
-      let node = this.root;
-      const lower = word.toLowerCase();
-      for (let i = 0; i < lower.length; i++) {
-        const ch = lower[i];
-        if (!node.children[ch]) node.children[ch] = new TrieNode();
-        node = node.children[ch];
-      }
-      node.isWord = true;
-    }
-
-    search(prefix: string, limit = 5): string[] {
-      const res: string[] = [];
-      if (!prefix) return res;
-      const lower = prefix.toLowerCase();
-      let node = this.root;
-      for (let i = 0; i < lower.length; i++) {
-        const ch = lower[i];
-        node = node.children[ch];
-        if (!node) return res;
+  function reportStorageError(error: unknown, key: string): void {
+    try { options.onStorageError?.(error, key); } catch {}
+  }
+
+  function readStorage(group: string, key: string, apply: (data: unknown) => void): Promise<void> {
+    const fail = (error: unknown) => {
+      unreadableKeys.add(key);
+      reportStorageError(error, key);
+    };
+    try {
+      const result = getStorage(group).get(key);
+      if (!isPromise(result)) {
+        apply(result);
+        return Promise.resolve();
       }
-      this._collect(node, prefix.slice(0, prefix.length), res, limit);
-      return res;
+      return result.then(apply).catch(fail);
+    } catch (e) {
+      fail(e);
+      return Promise.resolve();
     }
+  }
 
-    private _collect(node: TrieNode, prefix: string, acc: string[], limit: number): void {
-      if (acc.length >= limit) return;
-      if (node.isWord) acc.push(prefix);
-      if (acc.length >= limit) return;
-      for (const ch in node.children) {
-        this._collect(node.children[ch], prefix + ch, acc, limit);
-        if (acc.length >= limit) return;
+  // Resolves to whether the value was written
+  function writeStorage(group: string, key: string, value: unknown): Promise<boolean> {
+    try {
+      const result = getStorage(group).set(key, value);
+      if (!isPromise(result)) return Promise.resolve(true);
+      return result.then(() => true, error => {
+        reportStorageError(error, key);
+        return false;
+      });
+    } catch (e) {
+      reportStorageError(e, key);
+      return Promise.resolve(false);
+    }
+  }
+
+  function removeStorage(group: string, key: string): void {
+    try {
+      const result = getStorage(group).remove(key);
+      if (isPromise(result)) result.catch(error => reportStorageError(error, key));
+    } catch (e) {
+      reportStorageError(e, key);
+    }
+  }
+
+  // Upgrades a stored document. Data from a newer release is left alone, and anything unusable is
+  // copied aside under a ".corrupt.<time>" key so the original key can be written again.
+  function decodeDocument<T>(group: string, key: string, schema: StorageSchema<T>, data: unknown): T | null {
+    if (data === null || data === undefined) return null;
+    const version = schema.detect(data);
+    if (version > schema.version) {
+      unreadableKeys.add(key);
+      reportStorageError(new Error(`GhostComplete: ${key} has schema version ${version}, newer than this release supports`), key);
+      return null;
+    }
+    try {
+      const doc = upgradeDocument(schema, data);
+      quarantinedKeys.delete(key);
+      return doc;
+    } catch (error) {
+      // The load and the first write's merge both read the same bad blob; copy and report it once
+      if (!quarantinedKeys.has(key)) {
+        quarantinedKeys.add(key);
+        writeStorage(group, `${key}.corrupt.${Date.now()}`, data);
+        reportStorageError(error, key);
       }
+      return null;
     }
   }
 
+  // Drops the ".corrupt.<time>" copies made of these keys
+  function removeQuarantinedCopies(group: string, keys: string[]): void {
+    const storage = getStorage(group);
+    Promise.resolve().then(() => storage.keys())
+      .then(stored => stored
+        .filter(key => keys.some(base => key.startsWith(`${base}.corrupt.`)))
+        .forEach(key => removeStorage(group, key)))
+      .catch(error => reportStorageError(error, keys[0]));
+    keys.forEach(key => quarantinedKeys.delete(key));
+  }
+
+  // Where vocabularies were kept before the schema version moved into the document
+  function getLegacyWordsKeys(group: string): string[] {
+    const base = group ? `_${group}` : "";
+    return [`${namespace}ac_w${base}`, `${namespace}ac_w${base}_v1`, `${namespace}ac_w${base}_v2`];
+  }
+
+  // Removed once their words have been written under the current key
+  function readLegacyWords(group: string): Promise<void> {
+    const cacheKey = group || "default";
+    return Promise.all(getLegacyWordsKeys(group).map(key => readStorage(group, key, data => {
+      const stored = decodeDocument(group, key, WORDS_SCHEMA, data);
+      if (!stored || wordsCacheMap[cacheKey] === undefined) return;
+      pendingStorage.legacy.set(group, (pendingStorage.legacy.get(group) || []).concat(key));
+      mergeStoredWords(group, stored, "sum");
+      rebuildTrieForGroup(group);
+      queueSaveWords(group);
+    }))).then(() => undefined);
+  }
+
+  function mergeStoredWords(group: string, stored: StoredWords, mode: MergeMode): void {
+    const cacheKey = group || "default";
+    const cache = wordsCacheMap[cacheKey];
+    const entries = cache.entries;
+    (stored.blocked || []).forEach(word => cache.blocked.add(word));
+    for (const word in stored.removed) cache.removed.set(word, Math.max(cache.removed.get(word) || 0, stored.removed[word]));
+    for (const key in stored.entries) entries[key] = mergeEntry(entries[key], stored.entries[key], mode);
+    cache.released.forEach(word => {
+      cache.blocked.delete(word);
+      if (entries[word]) delete entries[word].pinned;
+    });
+    cache.blocked.forEach(word => delete entries[word]);
+    // A word used after it was forgotten was learned again, in this copy or the other
+    cache.removed.forEach((at, word) => {
+      if (entries[word] && entries[word].lastUsed > at) cache.removed.delete(word);
+      else delete entries[word];
+    });
+    pruneRemoved(group);
+
+    const seen = new Set<string>();
+    const words: string[] = [];
+    cache.words.concat(stored.words).forEach(word => {
+      const lower = word.toLowerCase();
+      if (seen.has(lower) || cache.blocked.has(lower) || cache.removed.has(lower)) return;
+      seen.add(lower);
+      words.push(word);
+    });
+
+    // Most recently used first, as saveWord keeps it; words without entries keep their place
+    const lastUsed = (word: string) => entries[word.toLowerCase()]?.lastUsed || 0;
+    const ordered = words.map((word, index) => ({ word, index, lastUsed: lastUsed(word) }));
+    ordered.sort((a, b) => b.lastUsed - a.lastUsed || a.index - b.index);
+    cache.words = ordered.map(item => item.word);
+    evictWords(group);
+  }
+
+  // Keeps the MAX_WORDS most recent tombstones; older ones are unlikely to be in any copy still around
+  function pruneRemoved(group: string): void {
+    const cache = wordsCacheMap[group || "default"];
+    const excess = cache.removed.size - getGroupConfig(group).MAX_WORDS;
+    if (excess <= 0) return;
+    Array.from(cache.removed).sort((a, b) => a[1] - b[1]).slice(0, excess).forEach(([word]) => cache.removed.delete(word));
+  }
+
+  // Drops the lowest-scored words, one at a time, until the group is back within MAX_WORDS.
+  // Pinned words and `keep` are never dropped. Returns how many words went.
+  function evictWords(group = "", keep = ""): number {
+    const cache = wordsCacheMap[group || "default"];
+    const excess = cache.words.length - getGroupConfig(group).MAX_WORDS;
+    if (excess <= 0) return 0;
+
+    const score = getWordScorer(group);
+    const candidates = cache.words
+      .map((word, index) => ({ lower: word.toLowerCase(), index }))
+      .filter(item => item.lower !== keep && !cache.entries[item.lower]?.pinned)
+      .map(item => ({ ...item, score: score(item.lower) }));
+    // Lowest score first; among equals the word furthest back in the recency order goes first
+    candidates.sort((a, b) => a.score - b.score || b.index - a.index);
+
+    const evicted = new Set<string>();
+    for (let i = 0; i < excess && i < candidates.length; i++) {
+      evicted.add(candidates[i].lower);
+      delete cache.entries[candidates[i].lower];
+      trieMap[group || "default"]?.remove(candidates[i].lower);
+    }
+    if (evicted.size > 0) cache.words = cache.words.filter(word => !evicted.has(word.toLowerCase()));
+    return evicted.size;
+  }
+
   function loadWords(group = ""): string[] {
     const cacheKey = group || "default";
     if (wordsCacheMap[cacheKey]) return wordsCacheMap[cacheKey].words.slice();
     
     const { wordsKey } = getStorageKeys(group);
-    const config = getGroupConfig(group);
+    wordsCacheMap[cacheKey] = createWordsCache();
+    loadedGroups.add(group);
     
-    try {
-      const raw = localStorage.getItem(wordsKey);
-      const data = raw ? JSON.parse(raw) : { words: [], entries: {} };
-      
-      // Ensure we have the right structure
-      if (Array.isArray(data)) {
-        // Migrate old format
-        wordsCacheMap[cacheKey] = {
-          words: data.slice(0, config.MAX_WORDS),
-          entries: {}
-        };
-      } else {
-        wordsCacheMap[cacheKey] = {
-          words: (data.words || []).slice(0, config.MAX_WORDS),
-          entries: data.entries || {}
-        };
-      }
-      
+    let missing = false;
+    loadPromises[wordsKey] = readStorage(group, wordsKey, (data) => {
+      if (wordsCacheMap[cacheKey] === undefined) return; // destroyed meanwhile
+      missing = data === null || data === undefined;
+      const stored = decodeDocument(group, wordsKey, WORDS_SCHEMA, data);
+      if (!stored) return;
+      mergeStoredWords(group, stored, "sum");
       rebuildTrieForGroup(group);
-      return wordsCacheMap[cacheKey].words.slice();
-    } catch (e) {
-      wordsCacheMap[cacheKey] = { words: [], entries: {} };
-      trieMap[cacheKey] = new Trie();
-      return [];
-    }
+      refreshPanels(group);
+    }).then(() => (missing ? readLegacyWords(group) : undefined));
+    
+    if (!trieMap[cacheKey]) rebuildTrieForGroup(group);
+    return wordsCacheMap[cacheKey].words.slice();
+  }
+
+  // Resolves once the group's stored words and transitions have been read
+  function whenLoaded(group = ""): Promise<void> {
+    loadWords(group);
+    loadTransitions(group);
+    const { wordsKey, ngramsKey } = getStorageKeys(group);
+    return Promise.all([loadPromises[wordsKey], loadPromises[ngramsKey]]).then(() => undefined);
+  }
+
+  function exportVocabulary(group = ""): VocabularyExport {
+    const cacheKey = group || "default";
+    const words = loadWords(group);
+    const entries = wordsCacheMap[cacheKey].entries;
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      group,
+      exportedAt: Date.now(),
+      words: words.map(word => ({ word, ...(entries[word.toLowerCase()] || EMPTY_ENTRY) })),
+      blocked: Array.from(wordsCacheMap[cacheKey].blocked),
+      transitions: JSON.parse(JSON.stringify(loadTransitions(group)))
+    };
+  }
+
+  // Validates, then applies once any async load of the group has finished; malformed data rejects
+  function importVocabulary(group: string, data: unknown, importOptions: ImportOptions = {}): Promise<number> {
+    return Promise.resolve()
+      .then(() => parseVocabulary(data))
+      .then(parsed => whenLoaded(group).then(() => parsed))
+      .then(({ stored, transitions }) => {
+        const cacheKey = group || "default";
+        if (importOptions.mode === "replace") {
+          wordsCacheMap[cacheKey] = createWordsCache();
+          transitionsCacheMap[cacheKey] = Object.create(null);
+          pendingStorage.replaced.add(group);
+        }
+
+        mergeStoredWords(group, stored, "max");
+        const cache = wordsCacheMap[cacheKey];
+        const kept = new Set(cache.words.map(w => w.toLowerCase()));
+        for (const key in cache.entries) {
+          if (!kept.has(key)) delete cache.entries[key];
+        }
+        if (transitions) mergeStoredTransitions(group, transitionsCacheMap[cacheKey], transitions, "max");
+
+        rebuildTrieForGroup(group);
+        queueSaveWords(group);
+        return stored.words.filter(word => kept.has(word.toLowerCase())).length;
+      });
   }
 
   function rebuildTrieForGroup(group = ""): void {
@@ -201,45 +1940,158 @@
   function queueSaveWords(group = ""): void {
     pendingStorage.words.add(group);
     scheduleStorageSync();
+    refreshPanels(group);
+  }
+
+  let storageSyncTimer: number | null = null;
+
+  function scheduleStorageSync(): void {
+    const config = getGroupConfig("");
+    if (storageSyncTimer) clearTimeout(storageSyncTimer);
+    storageSyncTimer = window.setTimeout(flushStorageSync, config.STORAGE_SYNC_DELAY);
+  }
+
+  function flushStorageSync(): void {
+    pendingStorage.words.forEach((group) => {
+      const { wordsKey, ngramsKey } = getStorageKeys(group);
+      const config = getGroupConfig(group);
+      const cacheKey = group || "default";
+      // Captured now so an async write still has the data if the instance is destroyed meanwhile
+      const cache = wordsCacheMap[cacheKey];
+      const transitions = transitionsCacheMap[cacheKey];
+      // Still decoded, so data from a newer release is kept, but not merged back in
+      const replaced = pendingStorage.replaced.has(group);
+      const legacy = pendingStorage.legacy.get(group) || [];
+      pendingStorage.legacy.delete(group);
+      if (cache) {
+        writeMergedStorage(group, wordsKey, (data) => {
+          const stored = decodeDocument(group, wordsKey, WORDS_SCHEMA, data);
+          if (stored && !replaced && wordsCacheMap[cacheKey] === cache) {
+            mergeStoredWords(group, stored, "max");
+            rebuildTrieForGroup(group);
+          }
+        }, () => {
+          cache.released.clear();
+          const removed: { [word: string]: number } = {};
+          cache.removed.forEach((at, word) => (removed[word] = at));
+          return { version: WORDS_SCHEMA.version, words: cache.words, entries: cache.entries, blocked: Array.from(cache.blocked), removed };
+        }, () => legacy.forEach(key => removeStorage(group, key)));
+      }
+      if (transitions) {
+        writeMergedStorage(group, ngramsKey, (data) => {
+          const stored = decodeDocument(group, ngramsKey, TRANSITIONS_SCHEMA, data);
+          if (stored && !replaced) mergeStoredTransitions(group, transitions, stored, "max");
+        }, () => ({ version: TRANSITIONS_SCHEMA.version, transitions }));
+      }
+    });
+    pendingStorage.words.clear();
+    pendingStorage.replaced.clear();
+    storageSyncTimer = null;
+  }
+
+  // Another tab may have written since we loaded: fold its data in first, then write the union
+  function writeMergedStorage(group: string, key: string, merge: (stored: unknown) => void, snapshot: () => unknown, written?: () => void): void {
+    const write = () => {
+      const value = snapshot();
+      writeStorage(group, key, value).then(ok => ok && written?.());
+      broadcastChange(group, key, value);
+    };
+    const mergeAndWrite = (stored: unknown) => {
+      unreadableKeys.delete(key);
+      merge(stored);
+      // merge() marks data from a newer release as unreadable
+      if (!unreadableKeys.has(key)) write();
+    };
+    // Data we never managed to read is kept rather than replaced by what this session learned
+    const fail = (error: unknown) => {
+      reportStorageError(error, key);
+      if (!unreadableKeys.has(key)) write();
+    };
+    if (options.crossTabSync === false && !unreadableKeys.has(key)) {
+      write();
+      return;
+    }
+    try {
+      const stored = getStorage(group).get(key);
+      if (!isPromise(stored)) {
+        mergeAndWrite(stored);
+        return;
+      }
+      stored.then(mergeAndWrite, fail);
+    } catch (e) {
+      fail(e);
+    }
   }
 
-  let storageSyncTimer: number | null = null;
+  function usesLocalStorage(group: string): boolean {
+    return (getGroupConfig(group).storage || options.storage || "local") === "local";
+  }
 
-  function scheduleStorageSync(): void {
-    const config = getGroupConfig("");
-    if (storageSyncTimer) clearTimeout(storageSyncTimer);
-    storageSyncTimer = window.setTimeout(flushStorageSync, config.STORAGE_SYNC_DELAY);
+  // localStorage changes reach other tabs as storage events; other backends need the channel
+  function broadcastChange(group: string, key: string, value: unknown): void {
+    if (!syncChannel || usesLocalStorage(group)) return;
+    try { syncChannel.postMessage({ key, value }); } catch {}
   }
 
-  function flushStorageSync(): void {
-    pendingStorage.words.forEach((group) => {
-      const { wordsKey } = getStorageKeys(group);
-      const config = getGroupConfig(group);
+  function applyRemoteChange(key: string, value: unknown, fromStorageEvent: boolean): void {
+    loadedGroups.forEach(group => {
+      if (fromStorageEvent && !usesLocalStorage(group)) return;
+      const { wordsKey, ngramsKey } = getStorageKeys(group);
       const cacheKey = group || "default";
-      try {
-        const cache = wordsCacheMap[cacheKey];
-        if (cache) {
-          localStorage.setItem(wordsKey, JSON.stringify({
-            words: cache.words.slice(0, config.MAX_WORDS),
-            entries: cache.entries
-          }));
+
+      if (key === wordsKey && wordsCacheMap[cacheKey]) {
+        // A removed key means the group was cleared elsewhere
+        if (value === null) wordsCacheMap[cacheKey] = createWordsCache();
+        else {
+          const stored = decodeDocument(group, key, WORDS_SCHEMA, value);
+          if (stored) mergeStoredWords(group, stored, "max");
         }
-      } catch (e) {}
+        rebuildTrieForGroup(group);
+        refreshPanels(group);
+      } else if (key === ngramsKey && transitionsCacheMap[cacheKey]) {
+        if (value === null) transitionsCacheMap[cacheKey] = Object.create(null);
+        else {
+          const stored = decodeDocument(group, key, TRANSITIONS_SCHEMA, value);
+          if (stored) mergeStoredTransitions(group, transitionsCacheMap[cacheKey], stored, "max");
+        }
+      }
     });
-    pendingStorage.words.clear();
-    storageSyncTimer = null;
+  }
+
+  function onStorageEvent(e: StorageEvent): void {
+    if (e.storageArea && e.storageArea !== window.localStorage) return;
+    if (e.key === null) {
+      // localStorage.clear() in another tab
+      loadedGroups.forEach(group => {
+        const { wordsKey, ngramsKey } = getStorageKeys(group);
+        applyRemoteChange(wordsKey, null, true);
+        applyRemoteChange(ngramsKey, null, true);
+      });
+      return;
+    }
+    try {
+      applyRemoteChange(e.key, e.newValue === null ? null : JSON.parse(e.newValue), true);
+    } catch (error) {
+      reportStorageError(error, e.key);
+    }
+  }
+
+  function onSyncMessage(e: MessageEvent): void {
+    const data = e.data as { key?: unknown; value?: unknown } | null;
+    if (data && typeof data.key === "string") applyRemoteChange(data.key, data.value ?? null, false);
   }
 
   function saveWord(word: string, group = ""): void {
     word = (word || "").trim();
-    if (!word || word.length < 3) return; // Enforce minimum 3 characters
+    if (!word || word.length < (UNSPACED_SCRIPT.test(word) ? 2 : 3)) return; // Enforce minimum 3 characters, 2 for CJK and Thai
     
     const cacheKey = group || "default";
     if (!wordsCacheMap[cacheKey]) loadWords(group);
 
-    const config = getGroupConfig(group);
     const cache = wordsCacheMap[cacheKey];
     const lower = word.toLowerCase();
+    if (cache.blocked.has(lower)) return;
+    cache.removed.delete(lower);
     const now = Date.now();
     
     // Update or create entry
@@ -263,37 +2115,312 @@
     // Add to front
     cache.words.unshift(word);
     
-    // Manage size with stable/buffer approach
-    if (cache.words.length > config.MAX_WORDS) {
-      // Keep most stable (frequent) words
-      const wordsWithScore = cache.words.map(w => ({
-        word: w,
-        entry: cache.entries[w.toLowerCase()] || { lastUsed: 0, frequency: 0 },
-        score: (cache.entries[w.toLowerCase()]?.frequency || 0) * 
-               Math.max(0.1, 1 - (now - (cache.entries[w.toLowerCase()]?.lastUsed || 0)) / (7 * 24 * 60 * 60 * 1000))
-      }));
-      
-      wordsWithScore.sort((a, b) => b.score - a.score);
-      const kept = wordsWithScore.slice(0, config.MAX_STABLE);
-      cache.words = kept.map(item => item.word);
-      
-      // Clean up entries for removed words
-      const keptWords = new Set(cache.words.map(w => w.toLowerCase()));
-      for (const key in cache.entries) {
-        if (!keptWords.has(key)) {
-          delete cache.entries[key];
-        }
-      }
+    // Make room without ever dropping the word just used
+    evictWords(group, lower);
+    if (!trieMap[cacheKey]) rebuildTrieForGroup(group);
+    trieMap[cacheKey].insert(word);
+
+    queueSaveWords(group);
+  }
+
+  function loadTransitions(group = ""): TransitionMap {
+    const cacheKey = group || "default";
+    if (transitionsCacheMap[cacheKey]) return transitionsCacheMap[cacheKey];
+
+    const { ngramsKey } = getStorageKeys(group);
+    const transitions: TransitionMap = (transitionsCacheMap[cacheKey] = Object.create(null));
+    loadedGroups.add(group);
+    loadPromises[ngramsKey] = readStorage(group, ngramsKey, (data) => {
+      const stored = decodeDocument(group, ngramsKey, TRANSITIONS_SCHEMA, data);
+      if (stored) mergeStoredTransitions(group, transitions, stored, "sum");
+    });
+    return transitions;
+  }
+
+  function rankByScore(entries: { [word: string]: WordEntry } | undefined, group = "", now = Date.now()): string[] {
+    if (!entries) return [];
+    const scoreWord = getScoreFunction(group);
+    return Object.keys(entries)
+      .map(word => ({ word, score: scoreWord(entries[word], word, now) }))
+      .sort((a, b) => b.score - a.score)
+      .map(item => item.word);
+  }
+
+  function saveTransition(previous: string, next: string, group = ""): void {
+    const config = getGroupConfig(group);
+    const from = (previous || "").trim().toLowerCase();
+    const to = (next || "").trim().toLowerCase();
+    if (config.MAX_PHRASE_WORDS <= 0 || from.length < 3 || to.length < 3) return;
+    const blocked = wordsCacheMap[group || "default"]?.blocked;
+    if (blocked && (blocked.has(from) || blocked.has(to))) return;
+
+    const transitions = loadTransitions(group);
+    const now = Date.now();
+    const followers = (transitions[from] = transitions[from] || Object.create(null));
+    if (followers[to]) {
+      followers[to].lastUsed = now;
+      followers[to].frequency++;
+    } else {
+      followers[to] = { lastUsed: now, frequency: 1 };
+    }
+
+    // Bound both the followers per word and the number of words tracked
+    const ranked = rankByScore(followers, group, now);
+    if (ranked.length > MAX_FOLLOWERS) delete followers[ranked[ranked.length - 1]];
+
+    const tracked = Object.keys(transitions);
+    if (tracked.length > config.MAX_WORDS) {
+      const lastUsed = (word: string) => Math.max(0, ...Object.keys(transitions[word]).map(n => transitions[word][n].lastUsed));
+      const stalest = tracked.reduce((a, b) => (lastUsed(b) < lastUsed(a) ? b : a));
+      delete transitions[stalest];
     }
 
+    queueSaveWords(group);
+  }
+
+  // Forgets the word and its word pairs; returns false if it wasn't known
+  function removeWord(word: string, group = ""): boolean {
+    const lower = (word || "").trim().toLowerCase();
+    if (!lower) return false;
+    loadWords(group);
+    const cache = wordsCacheMap[group || "default"];
+    const known = !!cache.entries[lower] || cache.words.some(w => w.toLowerCase() === lower);
+    cache.removed.set(lower, Date.now());
+    pruneRemoved(group);
+    cache.released.delete(lower);
+    delete cache.entries[lower];
+    cache.words = cache.words.filter(w => w.toLowerCase() !== lower);
+    dropWordPairs(loadTransitions(group), [lower]);
+    trieMap[group || "default"]?.remove(lower);
+    queueSaveWords(group);
+    return known;
+  }
+
+  // Seeds words as if each had been used `frequency` times just now; one trie update per word, no rebuild
+  function addWords(group: string, words: string[], frequency = 1): number {
+    if (!Number.isFinite(frequency) || frequency <= 0) throw new Error("GhostComplete: frequency must be a positive number");
+    loadWords(group);
+    const cacheKey = group || "default";
+    const cache = wordsCacheMap[cacheKey];
+    const now = Date.now();
+    const added: string[] = [];
+    const seen = new Set<string>();
+    (Array.isArray(words) ? words : []).forEach(raw => {
+      const word = typeof raw === "string" ? raw.trim() : "";
+      const lower = word.toLowerCase();
+      if (!word || seen.has(lower) || cache.blocked.has(lower)) return;
+      seen.add(lower);
+      cache.removed.delete(lower);
+      const entry = cache.entries[lower];
+      if (entry) {
+        entry.frequency += frequency;
+        entry.lastUsed = now;
+      } else {
+        cache.entries[lower] = { frequency, lastUsed: now };
+      }
+      added.push(word);
+    });
+    if (added.length === 0) return 0;
+
+    // Most recently used first, in the order given
+    cache.words = added.concat(cache.words.filter(w => !seen.has(w.toLowerCase())));
     if (!trieMap[cacheKey]) rebuildTrieForGroup(group);
-    trieMap[cacheKey].insert(word);
+    else added.forEach(word => trieMap[cacheKey].insert(word));
+    evictWords(group);
+    queueSaveWords(group);
+    return added.filter(word => cache.entries[word.toLowerCase()]).length;
+  }
+
+  // Ranked suggestions without an element: completions of `prefix`, or predictions after `previous` when it's empty
+  function queryWords(group: string, prefix: string, queryOptions: QueryOptions = {}): Suggestion[] {
+    const limit = queryOptions.limit ?? getGroupConfig(group).MAX_SUGGESTIONS;
+    loadWords(group);
+    const token = (prefix || "").trim();
+    const items = token
+      ? findSuggestionsForToken(token, group, [], limit)
+      : predictNextWords(queryOptions.previous || "", group, limit).map(value => ({ value }));
+    return items.filter(item => !isBlocked(item.value, group)).map(fromSuggestionItem);
+  }
+
+  // Word pairs from a stored or remote copy, minus those of blocked words and those last used before a word was forgotten
+  function mergeStoredTransitions(group: string, target: TransitionMap, stored: unknown, mode: MergeMode): void {
+    mergeTransitionMaps(target, stored, mode);
+    const cache = wordsCacheMap[group || "default"];
+    if (!cache) return;
+    dropWordPairs(target, cache.blocked);
+    cache.removed.forEach((at, word) => dropWordPairs(target, [word], at));
+  }
+
+  // Drops the pairs the words are part of, or only those last used no later than `before`
+  function dropWordPairs(transitions: TransitionMap, words: Iterable<string>, before = Infinity): void {
+    for (const word of Array.from(words)) {
+      for (const next in transitions[word]) {
+        if (transitions[word][next].lastUsed <= before) delete transitions[word][next];
+      }
+      for (const from in transitions) {
+        if (transitions[from][word] && transitions[from][word].lastUsed <= before) delete transitions[from][word];
+        if (Object.keys(transitions[from]).length === 0) delete transitions[from];
+      }
+    }
+  }
+
+  // Forgets the word and keeps it from being learned or suggested again
+  function blockWord(word: string, group = ""): boolean {
+    const lower = (word || "").trim().toLowerCase();
+    if (!lower) return false;
+    removeWord(lower, group);
+    wordsCacheMap[group || "default"].blocked.add(lower);
+    return true;
+  }
+
+  function unblockWord(word: string, group = ""): boolean {
+    const lower = (word || "").trim().toLowerCase();
+    loadWords(group);
+    const cache = wordsCacheMap[group || "default"];
+    if (!cache.blocked.delete(lower)) return false;
+    cache.released.add(lower);
+    queueSaveWords(group);
+    return true;
+  }
 
+  // Pinning a word that isn't known yet learns it, lifting any block on it
+  function setPinned(word: string, pinned: boolean, group = ""): boolean {
+    const lower = (word || "").trim().toLowerCase();
+    loadWords(group);
+    const cache = wordsCacheMap[group || "default"];
+    if (pinned && !cache.entries[lower]) {
+      cache.blocked.delete(lower);
+      saveWord(word, group);
+    }
+    const entry = cache.entries[lower];
+    if (!entry) return false;
+    if (pinned) {
+      entry.pinned = true;
+      cache.released.delete(lower);
+    } else {
+      delete entry.pinned;
+      cache.released.add(lower);
+    }
     queueSaveWords(group);
-  }  function analyzeIncremental(element: HTMLElement, group = ""): void {
+    return true;
+  }
+
+  function isBlocked(word: string, group = ""): boolean {
+    return !!wordsCacheMap[group || "default"]?.blocked.has(word.toLowerCase());
+  }
+
+  // pause() marks the root's element, so the paused state can also be rendered by the server
+  function getRootElement(): Element | null {
+    const root = getRoot();
+    if (root.nodeType === Node.DOCUMENT_NODE) return (root as Document).documentElement;
+    if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) return (root as ShadowRoot).host;
+    return root as HTMLElement;
+  }
+
+  function isPaused(): boolean {
+    return !!getRootElement()?.hasAttribute("data-autocomplete-paused");
+  }
+
+  function isEnabled(element: HTMLElement, group = ""): boolean {
+    return !isPaused() && !readFlag(element, "disabled") && getGroupConfig(group).enabled !== false && !isLockedField(element);
+  }
+
+  // The element's data-autocomplete-learn / -suggest attribute wins over the group's setting
+  function isModeOn(element: HTMLElement, group: string, mode: "learn" | "suggest"): boolean {
+    return readFlag(element, mode) ?? getGroupConfig(group)[mode] !== false;
+  }
+
+  function setEnabled(target: HTMLElement | string, enabled: boolean): void {
+    if (typeof target === "string") {
+      updateGroupConfig(target, { enabled });
+    } else if (enabled) {
+      target.removeAttribute("data-autocomplete-disabled");
+    } else {
+      target.setAttribute("data-autocomplete-disabled", "");
+    }
+    if (enabled) return;
+    elementStates.forEach((state, element) => {
+      if (!isEnabled(element, state.group)) dismissSuggestions(element, "disabled");
+    });
+  }
+
+  // Field, built-in token filters, group allow/deny lists, then the group's shouldLearn
+  function canLearn(element: HTMLElement, word: string, group = ""): boolean {
+    if (!isEnabled(element, group) || !isModeOn(element, group, "learn")) return false;
+    if (isSecretField(element) || (privateFields.get(element) ?? isSensitiveField(element))) return false;
+    const config = getGroupConfig(group);
+    if (config.filterSensitive !== false && isSensitiveToken(word)) return false;
+    if (config.deny && matchesPattern(config.deny, word)) return false;
+    if (config.allow && !matchesPattern(config.allow, word)) return false;
+    try {
+      return !config.shouldLearn || config.shouldLearn(word, element) !== false;
+    } catch {
+      return false;
+    }
+  }
+
+  function learnWord(element: HTMLElement, word: string, previous: string, group = ""): void {
+    if (!canLearn(element, word, group)) return;
+    if (previous && !canLearn(element, previous, group)) previous = "";
+    const detail: LearnEventDetail = { group, word, previous };
+    if (!emit(element, "beforelearn", detail)) return;
+    saveWord(word, group);
+    if (previous) saveTransition(previous, word, group);
+    emit(element, "learn", detail);
+  }
+
+  // The completed word before `index`, or "" at the start of a line or sentence
+  function getPreviousWord(text: string, index: number, group = ""): string {
+    let end = index;
+    while (end > 0 && /[^\S\n]/.test(text[end - 1])) end--;
+    if (end === 0 || text[end - 1] === "\n" || /[.!?。！？]/.test(text[end - 1])) return "";
+    const run = getRunBounds(text, end);
+    const tokens = findTokens(text.slice(run.start, end), getTokenizer(group));
+    return tokens.length > 0 ? tokens[tokens.length - 1].word : "";
+  }
+
+  // Learns each word of the run at the caret, e.g. "foo" and "bar" from "(foo.bar),"
+  function learnAtCaret(element: HTMLElement, text: string, pos: number, group = ""): void {
+    const run = getRunBounds(text, pos);
+    if (!run.word.trim()) return;
+    // Judge the whole run, so an email or number isn't learned piecewise
+    if (getGroupConfig(group).filterSensitive !== false && isSensitiveToken(trimPunctuation(run.word))) return;
+    let previous = getPreviousWord(text, run.start, group);
+    findTokens(run.word, getTokenizer(group)).forEach(token => {
+      learnWord(element, token.word, previous, group);
+      previous = token.word;
+    });
+  }
+
+  // Likely next words after `previous`, each extended into a phrase while the chain stays confident
+  function predictNextWords(previous: string, group = "", limit = getGroupConfig(group).MAX_SUGGESTIONS): string[] {
+    const config = getGroupConfig(group);
+    if (!previous || config.MAX_PHRASE_WORDS <= 0) return [];
+
+    const transitions = loadTransitions(group);
+    const now = Date.now();
+    const cache = wordsCacheMap[group || "default"];
+    const display: { [lower: string]: string } = Object.create(null);
+    cache?.words.forEach(w => { display[w.toLowerCase()] = w; });
+
+    return rankByScore(transitions[previous.toLowerCase()], group, now)
+      .slice(0, limit)
+      .map(next => {
+        const phrase = [next];
+        while (phrase.length < config.MAX_PHRASE_WORDS) {
+          const current = phrase[phrase.length - 1];
+          const best = rankByScore(transitions[current], group, now)[0];
+          if (!best || phrase.includes(best) || transitions[current][best].frequency < PHRASE_MIN_FREQUENCY) break;
+          phrase.push(best);
+        }
+        return phrase.map(w => display[w] || w).join(" ");
+      });
+  }
+
+  function analyzeIncremental(element: HTMLElement, group = ""): void {
     // Removed pattern analysis - only word-based autocomplete now
     try {
-      const val = (element as HTMLInputElement | HTMLTextAreaElement).value || "";
+      const val = getElementText(element);
       const words = val.split(/\s+/).filter(Boolean);
       elementWordCount.set(element, words.length);
     } catch (e) {
@@ -301,11 +2428,13 @@
     }
   }
 
-  function ensureMirror(): HTMLDivElement {
-    if (mirror) return mirror;
-    mirror = document.createElement("div");
-    mirror.style.cssText = "position:absolute;visibility:hidden;white-space:pre-wrap;word-wrap:break-word;top:0;left:-9999px;z-index:-1";
-    document.body.appendChild(mirror);
+  function ensureMirror(element: HTMLElement): HTMLDivElement {
+    if (!mirror) {
+      mirror = document.createElement("div");
+      mirror.style.cssText = "position:absolute;visibility:hidden;white-space:pre-wrap;word-wrap:break-word;top:0;left:-9999px;z-index:-1";
+    }
+    // Measured in the element's own tree, where its fonts and styles apply
+    mountOverlay(mirror, element);
     return mirror;
   }
 
@@ -325,7 +2454,79 @@
     }
   }
 
+  function isContentEditableSurface(el: HTMLElement): boolean {
+    return el.tagName !== "INPUT" && el.tagName !== "TEXTAREA" && el.isContentEditable;
+  }
+
+  function getSelectionFor(el: HTMLElement): Selection | null {
+    const root = el.getRootNode() as Document | (ShadowRoot & { getSelection?: () => Selection | null });
+    return (typeof root.getSelection === "function" ? root.getSelection() : null) || el.ownerDocument.getSelection();
+  }
+
+  function getEditableText(el: HTMLElement): EditableText {
+    const segments: TextSegment[] = [];
+    let text = "";
+    const walker = el.ownerDocument.createTreeWalker(el, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+    let node = walker.nextNode();
+    while (node) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const data = (node as Text).data;
+        segments.push({ node, isText: true, start: text.length, length: data.length });
+        text += data;
+      } else if (node.nodeName === "BR" || (BLOCK_TAGS.has(node.nodeName) && text && !text.endsWith("\n"))) {
+        segments.push({ node, isText: false, start: text.length, length: 1 });
+        text += "\n";
+      }
+      node = walker.nextNode();
+    }
+    return { text, segments };
+  }
+
+  function getElementText(el: HTMLElement): string {
+    if (isContentEditableSurface(el)) return getEditableText(el).text;
+    return (el as HTMLInputElement | HTMLTextAreaElement).value || "";
+  }
+
+  // Offset in the linearized text of a DOM boundary point inside `el`
+  function textOffsetAt(el: HTMLElement, container: Node, offset: number): number {
+    const { segments } = getEditableText(el);
+    const caret = el.ownerDocument.createRange();
+    caret.setStart(container, offset);
+    caret.collapse(true);
+
+    let pos = 0;
+    for (const seg of segments) {
+      if (seg.isText && seg.node === container) return seg.start + Math.min(offset, seg.length);
+      if (caret.comparePoint(seg.node, 0) >= 0) break;
+      pos = seg.start + seg.length;
+    }
+    return pos;
+  }
+
+  function pointAtTextOffset(el: HTMLElement, segments: TextSegment[], pos: number): { node: Node; offset: number } {
+    let fallback: { node: Node; offset: number } = { node: el, offset: el.childNodes.length };
+    for (const seg of segments) {
+      if (seg.isText && pos >= seg.start && pos <= seg.start + seg.length) {
+        return { node: seg.node, offset: pos - seg.start };
+      }
+      if (!seg.isText && seg.start < pos) {
+        const parent = seg.node.parentNode!;
+        fallback = seg.node.nodeName === "BR"
+          ? { node: parent, offset: Array.prototype.indexOf.call(parent.childNodes, seg.node) + 1 }
+          : { node: seg.node, offset: 0 };
+      }
+    }
+    return fallback;
+  }
+
   function getCaretPosition(el: HTMLElement): number {
+    if (isContentEditableSurface(el)) {
+      const selection = getSelectionFor(el);
+      if (!selection || !selection.rangeCount || !selection.focusNode || !el.contains(selection.focusNode)) {
+        return getElementText(el).length;
+      }
+      return textOffsetAt(el, selection.focusNode, selection.focusOffset);
+    }
     try {
       return (el as HTMLInputElement | HTMLTextAreaElement).selectionStart || 0;
     } catch {
@@ -333,8 +2534,37 @@
     }
   }
 
+  function getEditableCaretCoords(el: HTMLElement, caretPos: number): CaretCoords {
+    const point = pointAtTextOffset(el, getEditableText(el).segments, caretPos);
+    const range = el.ownerDocument.createRange();
+    range.setStart(point.node, point.offset);
+    range.collapse(true);
+
+    let rect: DOMRect | undefined = range.getClientRects()[0];
+    if (!rect && point.node.nodeType === Node.TEXT_NODE && point.offset > 0) {
+      // Collapsed ranges can report no box at a line end; measure the previous character instead
+      range.setStart(point.node, point.offset - 1);
+      const prev = range.getClientRects()[0];
+      if (prev) rect = new DOMRect(prev.right, prev.top, 0, prev.height);
+    }
+
+    const view = getViewOf(el);
+    if (!rect) {
+      const elRect = el.getBoundingClientRect();
+      const cs = getComputedStyle(el);
+      return {
+        left: elRect.left + view.scrollX + (parseInt(cs.paddingLeft) || 0),
+        top: elRect.top + view.scrollY + (parseInt(cs.paddingTop) || 0),
+        height: parseInt(cs.lineHeight) || (parseInt(cs.fontSize) || 16) * 1.2
+      };
+    }
+    return { left: rect.left + view.scrollX, top: rect.top + view.scrollY, height: rect.height };
+  }
+
   function getCaretCoords(el: HTMLElement, caretPos: number): CaretCoords {
-    const m = ensureMirror();
+    if (isContentEditableSurface(el)) return getEditableCaretCoords(el, caretPos);
+
+    const m = ensureMirror(el);
     copyStyles(el, m);
 
     const value = (el as HTMLInputElement | HTMLTextAreaElement).value || "";
@@ -344,11 +2574,12 @@
 
     m.innerHTML = esc(before) + "<span id='__caret_marker__' style='display:inline-block;width:1px;'>​</span>" + esc(value.slice(caretPos) || " ");
 
-    const marker = document.getElementById("__caret_marker__");
+    const marker = m.querySelector("#__caret_marker__");
     const elRect = el.getBoundingClientRect();
+    const view = getViewOf(el);
 
     if (!marker) {
-      return { left: elRect.left + window.scrollX + 4, top: elRect.top + window.scrollY + elRect.height, height: elRect.height };
+      return { left: elRect.left + view.scrollX + 4, top: elRect.top + view.scrollY + elRect.height, height: elRect.height };
     }
     
     const markerRect = marker.getBoundingClientRect();
@@ -359,8 +2590,8 @@
 
     const relativeLeft = markerRect.left - mirrorRect.left;
     const relativeTop = markerRect.top - mirrorRect.top;
-    const left = elRect.left + window.scrollX + relativeLeft - scrollLeft;
-    const top = elRect.top + window.scrollY + relativeTop - scrollTop;
+    const left = elRect.left + view.scrollX + relativeLeft - scrollLeft;
+    const top = elRect.top + view.scrollY + relativeTop - scrollTop;
 
     return { left, top, height: markerRect.height || elRect.height };
   }
@@ -368,31 +2599,100 @@
   function createGhost(): HTMLDivElement {
     if (ghost) return ghost;
     ghost = document.createElement("div");
-    ghost.style.cssText = "position:absolute;pointer-events:none;font-family:inherit;font-size:inherit;line-height:inherit;color:color-mix(in srgb, currentColor 35%, transparent);white-space:pre;z-index:99998;user-select:none;overflow:hidden;text-overflow:clip;margin:0;padding:0;border:none;background:transparent";
-    
-    // Fallback for browsers without color-mix support
-    if (!CSS.supports("color", "color-mix(in srgb, currentColor 35%, transparent)")) {
-      ghost.style.color = "rgba(128,128,128,0.6)";
-    }
-    
-    document.body.appendChild(ghost);
+    // Layout only; the color comes from the theme
+    ghost.style.cssText = "position:absolute;pointer-events:none;font-family:inherit;font-size:inherit;line-height:inherit;white-space:pre;z-index:99998;user-select:none;overflow:hidden;text-overflow:clip;margin:0;padding:0;border:none;background:transparent";
+    ghost.setAttribute('data-gc-ghost', '');
+    ghost.setAttribute('aria-hidden', 'true');
     return ghost;
   }
 
+  // Moves an overlay next to the element it serves and makes sure the stylesheet reaches it there
+  function mountOverlay(overlay: HTMLElement, element: HTMLElement): void {
+    const container = getContainer(element);
+    if (overlay.parentNode !== container) {
+      container.appendChild(overlay);
+      if (overlay === popup) lastPopupPos = { left: -1, top: -1 };
+    }
+    injectStyle(container);
+  }
+
+  function injectStyle(container: HTMLElement | ShadowRoot): void {
+    if (styleMode === "none") return;
+    const root = container.getRootNode();
+    const target = root.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? root : (container.ownerDocument || document).head;
+    if (!target || styles.has(target)) return;
+    const style = document.createElement("style");
+    style.textContent = buildStyleText(styleMode);
+    target.appendChild(style);
+    styles.set(target, style);
+  }
+
+  // Inline mode only; the other modes leave the look to the stylesheet or the page
+  function applyPartStyle(el: HTMLElement, part: StylePart): void {
+    if (styleMode === "inline") el.style.cssText += getPartStyles(activeTheme)[part];
+  }
+
+  // Re-themes the overlays when the group's theme or the system preference changed since the last render
+  function applyTheme(theme: ThemeName): void {
+    activeTheme = theme;
+    ([[ghost, "ghost"], [popup, "popup"]] as [HTMLElement | null, StylePart][]).forEach(([el, part]) => {
+      if (!el || el.getAttribute('data-gc-theme') === theme) return;
+      el.setAttribute('data-gc-theme', theme);
+      applyPartStyle(el, part);
+    });
+  }
+
+  // Visually hidden, but read out by screen readers without moving focus
+  function createLiveRegion(): HTMLDivElement {
+    if (liveRegion) return liveRegion;
+    liveRegion = document.createElement("div");
+    liveRegion.setAttribute('role', 'status');
+    liveRegion.setAttribute('aria-live', 'polite');
+    liveRegion.setAttribute('aria-atomic', 'true');
+    liveRegion.style.cssText = "position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;overflow:hidden;clip:rect(0 0 0 0);clip-path:inset(50%);white-space:nowrap";
+    getContainer().appendChild(liveRegion);
+    return liveRegion;
+  }
+
+  function announce(message: string): void {
+    if (!message) return;
+    const region = createLiveRegion();
+    // Identical text isn't re-read, so alternate a trailing no-break space
+    region.textContent = region.textContent === message ? message + "\u00a0" : message;
+  }
+
+  function announceCount(count: number, type: SuggestEventDetail["type"]): void {
+    if (options.announcements === false || count === announcedCount) return;
+    announcedCount = count;
+    const format = options.announcements?.count;
+    announce(format ? format(count, type) : `${count} ${type === "prediction" ? "prediction" : "suggestion"}${count === 1 ? "" : "s"} available`);
+  }
+
+  function announceAccepted(suggestion: string): void {
+    if (options.announcements === false) return;
+    const format = options.announcements?.accepted;
+    announce(format ? format(suggestion) : `${suggestion} inserted`);
+  }
+
+  function getOptionId(index: number): string {
+    return `${listboxId}-option-${index}`;
+  }
+
+  // ARIA 1.2 combobox state on the input; the popup is its listbox
+  function setExpanded(element: HTMLElement, expanded: boolean): void {
+    element.setAttribute('aria-expanded', String(expanded));
+    if (!expanded) element.removeAttribute('aria-activedescendant');
+  }
+
   function createPopup(): HTMLDivElement {
     if (popup) return popup;
     popup = document.createElement("div");
     popup.className = "autocomplete-popup";
-    popup.style.cssText = "position:absolute;z-index:99999;background:light-dark(#ffffff,#1e1e1e);border:1px solid light-dark(rgba(0,0,0,0.12),rgba(255,255,255,0.12));box-shadow:0 8px 32px light-dark(rgba(0,0,0,0.1),rgba(0,0,0,0.5));border-radius:8px;padding:8px;font-size:13px;cursor:default;user-select:none;min-width:140px;max-width:320px;backdrop-filter:blur(12px);-webkit-backdrop-filter:blur(12px);color:light-dark(#333,#e0e0e0);font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif";
+    popup.style.cssText = "position:absolute;z-index:99999;cursor:default;user-select:none";
+    popup.id = listboxId;
+    popup.setAttribute('data-gc-popup', '');
     popup.setAttribute('role', 'listbox');
-
-    // Fallback for browsers without light-dark support
-    if (!CSS.supports("color", "light-dark(#ffffff, #1e1e1e)")) {
-      const prefersDark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
-      const darkStyles = "background:#1e1e1e;border:1px solid rgba(255,255,255,0.12);box-shadow:0 8px 32px rgba(0,0,0,0.5);color:#e0e0e0";
-      const lightStyles = "background:#ffffff;border:1px solid rgba(0,0,0,0.12);box-shadow:0 8px 32px rgba(0,0,0,0.1);color:#333";
-      popup.style.cssText += (prefersDark ? darkStyles : lightStyles);
-    }
+    popup.setAttribute('aria-label', 'Suggestions');
 
     popup.addEventListener('mousedown', (ev) => {
       const target = ev.target as HTMLElement;
@@ -402,9 +2702,16 @@
       const idx = parseInt(row.dataset.suggIndex!, 10);
       if (!Number.isFinite(idx)) return;
       
-      const activeEl = document.activeElement as HTMLElement;
+      const activeEl = getActiveElement() as HTMLElement;
       if (!activeEl || !elementStates.has(activeEl)) return;
         
+      const action = target.closest('[data-sugg-action]') as HTMLElement | null;
+      if (action) {
+        if (action.dataset.suggAction === "forget") forgetSuggestion(activeEl, idx);
+        else togglePinned(activeEl, idx);
+        return;
+      }
+
       const state = elementStates.get(activeEl)!;
       state.selectedIndex = idx;
       acceptSuggestion(activeEl);
@@ -418,18 +2725,31 @@
       const idx = parseInt(row.dataset.suggIndex!, 10);
       if (!Number.isFinite(idx)) return;
       
-      const activeEl = document.activeElement as HTMLElement;
+      const activeEl = getActiveElement() as HTMLElement;
       if (!activeEl || !elementStates.has(activeEl)) return;
       
-      const state = elementStates.get(activeEl)!;
-      state.selectedIndex = idx;
-      updatePopupSelection(activeEl);
+      if (elementStates.get(activeEl)!.selectedIndex !== idx) selectSuggestion(activeEl, idx);
     }, true);
 
-    document.body.appendChild(popup);
     return popup;
   }
 
+  // Hides the UI and reports it if suggestions were on screen
+  function dismissSuggestions(element: HTMLElement, reason: DismissEventDetail["reason"]): void {
+    const state = elementStates.get(element);
+    if (state && state.suggestions.length > 0) emit(element, "dismiss", { group: state.group, reason });
+    removeUIForElement(element);
+  }
+
+  function selectSuggestion(element: HTMLElement, index: number): void {
+    const state = elementStates.get(element);
+    if (!state || !state.suggestions[index]) return;
+    state.selectedIndex = index;
+    updatePopupSelection(element);
+    const item = state.suggestions[index];
+    emit(element, "select", { group: state.group, index, suggestion: item.value, item });
+  }
+
   function removeUIForElement(element: HTMLElement): void {
     const state = elementStates.get(element);
     if (!state) return;
@@ -438,16 +2758,222 @@
     if (popup) popup.style.display = "none";
     state.suggestions = [];
     state.selectedIndex = 0;
+    state.partial = null;
+    state.navigated = false;
+    announcedCount = 0;
+    setExpanded(element, false);
+    cancelSourceRequest(state);
   }
 
-  function findSuggestionsForToken(token: string, group = ""): string[] {
+  function findSuggestionsForToken(token: string, group = "", extra: Candidate[][] = [], limit = getGroupConfig(group).MAX_SUGGESTIONS): SuggestionItem[] {
     if (!token) return []; // Allow suggestions from 1 character
-    if (!trieMap[group]) loadWords(group);
-    const config = getGroupConfig(group);
-    const trie = trieMap[group];
+    const cacheKey = group || "default";
+    if (!trieMap[cacheKey]) loadWords(group);
+    const trie = trieMap[cacheKey];
     if (!trie) return [];
-    const results = trie.search(token, config.MAX_SUGGESTIONS);
-    return results.filter(w => w.toLowerCase() !== token.toLowerCase()).slice(0, config.MAX_SUGGESTIONS);
+    // One extra slot since the token itself is filtered out below
+    const score = getWordScorer(group);
+    const learned = trie.search(token, limit + 1, score).map(word => ({ word, score: score(word) }));
+    return mergeCandidates(token, [learned, ...searchStaticSources(token, group, limit + 1), ...extra, findFuzzyCandidates(token, group, limit + 1)], limit);
+  }
+
+  function getDisplayForms(group = ""): { [lower: string]: string } {
+    const display: { [lower: string]: string } = Object.create(null);
+    wordsCacheMap[group || "default"]?.words.forEach(w => { display[w.toLowerCase()] = w; });
+    return display;
+  }
+
+  function findFuzzyCandidates(token: string, group = "", limit = getGroupConfig(group).MAX_SUGGESTIONS + 1): Candidate[] {
+    const config = getGroupConfig(group);
+    const maxDistance = getFuzzyDistance(token, config);
+    const trie = trieMap[group || "default"];
+    if (maxDistance === 0 || !trie) return [];
+
+    const score = getWordScorer(group);
+    const display = getDisplayForms(group);
+    return trie.searchFuzzy(token, maxDistance)
+      .filter(match => match.distance > 0)
+      .map(match => ({ word: display[match.word] || match.word, score: score(match.word), distance: match.distance }))
+      .sort((a, b) => a.distance - b.distance || lengthGap(token, a.word) - lengthGap(token, b.word) || b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Dedupe case-insensitively, keeping the best score and first-seen order for ties.
+  // Exact prefix matches always rank above typo-tolerant ones.
+  function mergeCandidates(token: string, lists: Candidate[][], limit: number): SuggestionItem[] {
+    const lowerToken = token.toLowerCase();
+    const merged = new Map<string, Candidate & { order: number }>();
+    let order = 0;
+    lists.forEach(list => list.forEach(candidate => {
+      const key = candidate.word.toLowerCase();
+      if (key === lowerToken || (candidate.distance === undefined && !key.startsWith(lowerToken))) return;
+      const distance = key.startsWith(lowerToken) ? 0 : candidate.distance!;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...candidate, distance, order: order++ });
+        return;
+      }
+      if (candidate.score > existing.score) existing.score = candidate.score;
+      if (distance < existing.distance!) existing.distance = distance;
+    }));
+    return Array.from(merged.values())
+      .sort((a, b) => a.distance! - b.distance!
+        || (a.distance! > 0 ? lengthGap(token, a.word) - lengthGap(token, b.word) : 0)
+        || b.score - a.score
+        || a.order - b.order)
+      .slice(0, limit)
+      .map(candidate => candidate.item || { value: candidate.word });
+  }
+
+  // Trigger results aren't prefix-filtered, since they may match on the label; best weight first
+  function rankTriggerCandidates(lists: Candidate[][], limit: number): SuggestionItem[] {
+    const merged = new Map<string, Candidate & { order: number }>();
+    let order = 0;
+    lists.forEach(list => list.forEach(candidate => {
+      const key = candidate.word.toLowerCase();
+      const existing = merged.get(key);
+      if (!existing) merged.set(key, { ...candidate, order: order++ });
+      else if (candidate.score > existing.score) existing.score = candidate.score;
+    }));
+    return Array.from(merged.values())
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .slice(0, limit)
+      .map(candidate => candidate.item || { value: candidate.word });
+  }
+
+  function getTriggerSources(group: string, trigger: string): RegisteredSource[] {
+    return (sourceMap[group || "default"] || []).filter(s => (s.trigger || "") === trigger);
+  }
+
+  function findTriggerSuggestions(element: HTMLElement, token: WordBounds, group = ""): SuggestionItem[] {
+    const trigger = token.trigger || "";
+    const query = token.word.slice(trigger.length);
+    const limit = getGroupConfig(group).MAX_SUGGESTIONS;
+    const lists = getTriggerSources(group, trigger).map(source => source.items
+      .filter(item => matchesItem(query, item, trigger))
+      .slice(0, limit)
+      .map(item => ({ word: item.value, item, score: source.weight || 0 })));
+    return rankTriggerCandidates([...lists, ...querySources(element, token.word, trigger)], limit);
+  }
+
+  function toCandidates(suggestions: unknown, score: number): Candidate[] {
+    const candidates: Candidate[] = [];
+    (Array.isArray(suggestions) ? suggestions : []).forEach(suggestion => {
+      const item = toSuggestionItem(suggestion);
+      if (!item) return;
+      candidates.push(typeof suggestion === "string" ? { word: item.value, score } : { word: item.value, score, item });
+    });
+    return candidates;
+  }
+
+  function registerSource(group: string, source: string[] | SourceFunction | SuggestionSource): string {
+    const cacheKey = group || "default";
+    const normalized: SuggestionSource = Array.isArray(source) ? { words: source }
+      : typeof source === "function" ? { fetch: source }
+      : source;
+    const id = normalized.id || `source-${++sourceIdCounter}`;
+    const registered: RegisteredSource = { ...normalized, id, trie: null, order: Object.create(null), items: [], byValue: Object.create(null) };
+
+    if (normalized.words) {
+      registered.trie = new Trie();
+      normalized.words.forEach((word, index) => {
+        const item = toSuggestionItem(word);
+        if (!item) return;
+        const lower = item.value.toLowerCase();
+        if (lower in registered.order) return;
+        registered.order[lower] = index;
+        registered.items.push(item);
+        if (typeof word !== "string") registered.byValue[lower] = item;
+        registered.trie!.insert(item.value);
+      });
+    }
+
+    const sources = (sourceMap[cacheKey] = sourceMap[cacheKey] || []);
+    const existing = sources.findIndex(s => s.id === id);
+    if (existing >= 0) sources[existing] = registered;
+    else sources.push(registered);
+    return id;
+  }
+
+  function unregisterSource(group: string, id: string): boolean {
+    const sources = sourceMap[group || "default"];
+    if (!sources) return false;
+    const index = sources.findIndex(s => s.id === id);
+    if (index < 0) return false;
+    sources.splice(index, 1);
+    return true;
+  }
+
+  function searchStaticSources(token: string, group = "", limit = getGroupConfig(group).MAX_SUGGESTIONS + 1): Candidate[][] {
+    const sources = sourceMap[group || "default"];
+    if (!sources) return [];
+    const lists: Candidate[][] = [];
+    sources.forEach(source => {
+      if (!source.trie || source.trigger) return;
+      const words = source.trie.search(token, limit, w => -(source.order[w.toLowerCase()] ?? Infinity));
+      lists.push(words.map(word => {
+        const item = source.byValue[word.toLowerCase()];
+        return item ? { word, score: source.weight || 0, item } : { word, score: source.weight || 0 };
+      }));
+    });
+    return lists;
+  }
+
+  function cancelSourceRequest(state: { sourceRequest: SourceRequest | null }): void {
+    if (!state.sourceRequest) return;
+    state.sourceRequest.controller.abort();
+    state.sourceRequest = null;
+  }
+
+  // Provider results are cached per token; async ones re-render the element once they settle.
+  // With a trigger, only that trigger's sources are asked, and without the trigger character.
+  function querySources(element: HTMLElement, token: string, trigger = ""): Candidate[][] {
+    const state = elementStates.get(element);
+    if (!state) return [];
+    const group = state.group;
+    const sources = getTriggerSources(group, trigger).filter(s => s.fetch);
+    if (sources.length === 0) return [];
+
+    const current = state.sourceRequest;
+    if (current && current.token === token && current.trigger === trigger && current.group === group) return current.lists;
+
+    cancelSourceRequest(state);
+    const config = getGroupConfig(group);
+    const request: SourceRequest = { token, trigger, group, lists: [], controller: new AbortController() };
+    state.sourceRequest = request;
+    const context: SourceContext = { group, limit: config.MAX_SUGGESTIONS, signal: request.controller.signal };
+    if (trigger) context.trigger = trigger;
+    const query = token.slice(trigger.length);
+
+    sources.forEach(source => {
+      let result: Suggestion[] | Promise<Suggestion[]>;
+      try {
+        result = source.fetch!(query, context);
+      } catch (e) {
+        return;
+      }
+      if (!isPromise(result)) {
+        request.lists.push(toCandidates(result, source.weight || 0));
+        return;
+      }
+
+      let timer: number | null = null;
+      const timeout = new Promise<Suggestion[]>(resolve => {
+        timer = window.setTimeout(() => resolve([]), source.timeout ?? config.SOURCE_TIMEOUT);
+      });
+      Promise.race([result, timeout])
+        .catch(() => [] as Suggestion[])
+        .then(words => {
+          if (timer) clearTimeout(timer);
+          if (request.controller.signal.aborted || state.sourceRequest !== request) return;
+          const candidates = toCandidates(words, source.weight || 0);
+          if (candidates.length === 0) return;
+          request.lists.push(candidates);
+          updateUI(element);
+        });
+    });
+
+    return request.lists;
   }
 
   function scheduleUIUpdate(element: HTMLElement): void {
@@ -466,47 +2992,99 @@
   }
 
   let lastPopupPos = { left: -1, top: -1 };
+  let renderedRowsKey = "";
+
+  // Page offset of an overlay's containing block, non-zero when the container is positioned
+  function getOverlayOrigin(overlay: HTMLElement): { left: number; top: number } {
+    const parent = overlay.offsetParent as HTMLElement | null;
+    const doc = overlay.ownerDocument;
+    if (!parent || parent === doc.body || parent === doc.documentElement) return { left: 0, top: 0 };
+    const rect = parent.getBoundingClientRect();
+    const view = getViewOf(overlay);
+    return {
+      left: rect.left + view.scrollX + parent.clientLeft - parent.scrollLeft,
+      top: rect.top + view.scrollY + parent.clientTop - parent.scrollTop
+    };
+  }
 
   function updateUI(element: HTMLElement): void {
     const state = elementStates.get(element);
     if (!state) return;
+    if (!isEnabled(element, state.group) || !isModeOn(element, state.group, "suggest")) {
+      dismissSuggestions(element, "disabled");
+      return;
+    }
     
     const pos = getCaretPosition(element);
-    const val = (element as HTMLInputElement | HTMLTextAreaElement).value || "";
-    const vb = getWordBoundsAtCaret(val, pos);
+    const val = getElementText(element);
+    const vb = getWordBoundsAtCaret(val, pos, state.group);
     const token = vb.word;
     const config = getGroupConfig(state.group);
     const elRect = element.getBoundingClientRect();
 
-    let suggestions: string[] = [];
-    let suggestionType = "";
+    let suggestions: SuggestionItem[] = [];
+    let suggestionType: SuggestEventDetail["type"] = "completion";
+    state.partial = getPartial(state, val, pos);
+
+    if (state.partial) {
+      // Keep offering the rest of a suggestion that is being accepted word by word
+      suggestions = [state.partial.item];
+      suggestionType = state.partial.type;
+    } else if (vb.trigger && getTriggerSources(state.group, vb.trigger).length > 0) {
+      // Mention-style tokens ask their trigger's sources instead of the learned words
+      suggestions = findTriggerSuggestions(element, vb, state.group);
+      suggestionType = "trigger";
+    } else if (token) {
+      suggestions = findSuggestionsForToken(token, state.group, querySources(element, token));
+    } else if (pos > 0 && /[^\S\n]/.test(val[pos - 1])) {
+      suggestions = predictNextWords(getPreviousWord(val, pos, state.group), state.group).map(value => ({ value }));
+      suggestionType = "prediction";
+    }
+    // Sources and word pairs loaded after a block may still offer blocked words
+    suggestions = suggestions.filter(item => !isBlocked(item.value, state.group));
 
-    if (token) {
-      suggestions = findSuggestionsForToken(token, state.group);
-      if (suggestions.length > 0) suggestionType = "completion";
+    if (suggestions.length > 0) {
+      const detail: SuggestEventDetail = { group: state.group, query: token, type: suggestionType, suggestions: suggestions.map(fromSuggestionItem) };
+      suggestions = emit(element, "beforesuggest", detail) && Array.isArray(detail.suggestions)
+        ? detail.suggestions.map(toSuggestionItem).filter((item): item is SuggestionItem => item !== null)
+        : [];
     }
-    // Removed prediction functionality - only autocomplete when typing
 
     if (suggestions.length === 0) {
+      if (state.suggestions.length > 0) emit(element, "dismiss", { group: state.group, reason: "empty" });
       state.suggestions = [];
       state.selectedIndex = 0;
+      announcedCount = 0;
+      setExpanded(element, false);
       if (ghost) ghost.style.display = "none";
       if (popup) popup.style.display = "none";
       return;
     }
 
-    const prevSuggestions = state.suggestions.join('|');
+    const prevSuggestions = getSuggestionsKey(state.suggestions);
     state.suggestions = suggestions.slice(0, config.MAX_SUGGESTIONS);
-    if (state.suggestions.join('|') !== prevSuggestions) state.selectedIndex = 0;
-
-    const primarySuggestion = state.suggestions[0];
-    const appended = suggestionType === "completion" ? primarySuggestion.slice(token.length) : primarySuggestion;
+    state.suggestionType = suggestionType;
+    if (getSuggestionsKey(state.suggestions) !== prevSuggestions) {
+      state.selectedIndex = 0;
+      state.navigated = false;
+      emit(element, "suggest", { group: state.group, query: token, type: suggestionType, suggestions: state.suggestions.map(fromSuggestionItem) });
+      announceCount(state.suggestions.length, suggestionType);
+    }
 
-    const coords = getCaretCoords(element, pos);
+    const appended = state.partial ? state.partial.rest : getGhostFor(token, state.suggestions[0], suggestionType);
 
     // Enhanced ghost text positioning - constrain within input bounds
     const g = createGhost();
+    mountOverlay(g, element);
     g.style.display = "block";
+
+    // Everything below is in page coordinates of the overlay's document
+    const shift = getFrameShift(element, g);
+    const caret = getCaretCoords(element, pos);
+    const coords = { left: caret.left + shift.left, top: caret.top + shift.top, height: caret.height };
+    const elementView = getViewOf(element);
+    const elLeft = elRect.left + elementView.scrollX + shift.left;
+    const elTop = elRect.top + elementView.scrollY + shift.top;
     const cs = getComputedStyle(element);
     
     g.style.fontFamily = cs.fontFamily;
@@ -524,11 +3102,12 @@
     const borderRight = parseInt(cs.borderRightWidth) || 0;
     
     const contentWidth = elRect.width - paddingLeft - paddingRight - borderLeft - borderRight;
-    const maxGhostLeft = elRect.left + window.scrollX + contentWidth + paddingLeft + borderLeft;
+    const maxGhostLeft = elLeft + contentWidth + paddingLeft + borderLeft;
     const ghostLeft = Math.min(coords.left, maxGhostLeft - 50); // Leave some margin
     
-    g.style.left = `${ghostLeft}px`;
-    g.style.top = `${coords.top}px`;
+    const ghostOrigin = getOverlayOrigin(g);
+    g.style.left = `${ghostLeft - ghostOrigin.left}px`;
+    g.style.top = `${coords.top - ghostOrigin.top}px`;
     g.style.maxWidth = `${Math.max(50, maxGhostLeft - ghostLeft)}px`;
     g.style.overflow = "hidden";
     g.style.textOverflow = "ellipsis";
@@ -536,22 +3115,17 @@
 
     // Enhanced popup with better design
     const p = createPopup();
+    mountOverlay(p, element);
     p.style.display = "block";
+    applyTheme(resolveTheme(config.theme));
 
-    const existingRows = Array.from(p.querySelectorAll('[data-sugg-index]'));
-    let needsRebuild = existingRows.length !== state.suggestions.length;
-    
-    if (!needsRebuild) {
-      for (let i = 0; i < existingRows.length; i++) {
-        if (existingRows[i].textContent !== state.suggestions[i]) { 
-          needsRebuild = true; 
-          break; 
-        }
-      }
-    }
+    const rowsKey = `${activeTheme}\u0000${state.group}\u0000${suggestionType}\u0000${token}\u0000${getSuggestionsKey(state.suggestions)}`;
+    const needsRebuild = rowsKey !== renderedRowsKey;
 
     if (needsRebuild) {
+      renderedRowsKey = rowsKey;
       p.innerHTML = '';
+      p.setAttribute('data-sugg-query', token);
       
       if (config.classes?.popupContainer) {
         p.className = config.classes.popupContainer;
@@ -560,32 +3134,35 @@
       const frag = document.createDocumentFragment();
       state.suggestions.forEach((suggestion, index) => {
         const row = document.createElement('div');
-        row.textContent = suggestion;
+        fillRow(row, suggestion, index, vb, suggestionType, index === state.selectedIndex, state.group);
         row.setAttribute('data-sugg-index', String(index));
-        row.style.cssText = "padding:8px 12px;border-radius:6px;cursor:pointer;white-space:nowrap;transition:all 0.15s ease;font-weight:400;display:flex;align-items:center";
+        row.id = getOptionId(index);
+        row.setAttribute('role', 'option');
+        applyPartStyle(row, "row");
         
         if (config.classes?.popupRow) row.className = config.classes.popupRow;
         frag.appendChild(row);
       });
 
       const hint = document.createElement('div');
-      const typeLabel = "complete";
-      const navHint = state.suggestions.length > 1 ? " • ↑↓" : "";
-      hint.textContent = `${typeLabel} • Tab/→${navHint}`;
-      hint.style.cssText = "font-size:11px;opacity:0.6;margin-top:8px;padding:0 4px;border-top:1px solid light-dark(rgba(0,0,0,0.06),rgba(255,255,255,0.06))";
-      
+      hint.textContent = getHintText(state.group, suggestionType, state.suggestions.length);
+      hint.setAttribute('data-sugg-hint', '');
+      applyPartStyle(hint, "hint");
+      hint.setAttribute('aria-hidden', 'true');
       if (config.classes?.popupHint) hint.className = config.classes.popupHint;
       frag.appendChild(hint);
       p.appendChild(frag);
     }
 
+    setExpanded(element, true);
     updatePopupSelection(element);
 
     // Enhanced popup positioning with better collision detection
-    const viewportWidth = window.innerWidth;
-    const viewportHeight = window.innerHeight;
-    const scrollX = window.scrollX;
-    const scrollY = window.scrollY;
+    const view = getViewOf(p);
+    const viewportWidth = view.innerWidth;
+    const viewportHeight = view.innerHeight;
+    const scrollX = view.scrollX;
+    const scrollY = view.scrollY;
     
     p.style.visibility = "hidden";
     p.style.display = "block";
@@ -594,9 +3171,9 @@
     const popupHeight = popupRect.height;
     p.style.visibility = "";
 
-    const inputLeft = elRect.left + scrollX;
+    const inputLeft = elLeft;
     const inputRight = inputLeft + elRect.width;
-    const inputTop = elRect.top + scrollY;
+    const inputTop = elTop;
     const inputBottom = inputTop + elRect.height;
     
     // Smart horizontal positioning
@@ -637,6 +3214,9 @@
       }
     }
 
+    const popupOrigin = getOverlayOrigin(p);
+    popupLeft -= popupOrigin.left;
+    popupTop -= popupOrigin.top;
     if (lastPopupPos.left !== popupLeft || lastPopupPos.top !== popupTop) {
       p.style.left = `${popupLeft}px`;
       p.style.top = `${popupTop}px`;
@@ -644,53 +3224,340 @@
     }
   }
 
+  function getSuggestionsKey(items: SuggestionItem[]): string {
+    return items.map(item => [item.value, item.label, item.detail, item.icon].join("\u0001")).join("\u0000");
+  }
+
+  function getPartial(state: { partial: PartialAccept | null }, text: string, caret: number): PartialAccept | null {
+    const partial = state.partial;
+    return partial && partial.text === text && partial.caret === caret ? partial : null;
+  }
+
+  // The rest of a completion, the whole prediction, or nothing when a trigger item doesn't extend the token
+  function getGhostFor(token: string, item: SuggestionItem, type: SuggestEventDetail["type"]): string {
+    if (type === "prediction") return item.value;
+    if (type === "trigger") return item.value.toLowerCase().startsWith(token.toLowerCase()) ? item.value.slice(token.length) : "";
+    return getGhostText(token, item.value);
+  }
+
+  // The query at the start of the text or one of its words, trigger optional; typo matches for plain completions
+  function getHighlightRanges(text: string, item: SuggestionItem, token: WordBounds, type: SuggestEventDetail["type"]): [number, number][] {
+    if (type === "prediction") return [];
+    let ranges = getLabelRanges(token.word, text);
+    if (ranges.length === 0 && token.trigger) ranges = getLabelRanges(token.word.slice(token.trigger.length), text);
+    if (ranges.length === 0 && type === "completion" && text === item.value) ranges = getMatchRanges(token.word, text);
+    return ranges;
+  }
+
+  function fillRow(row: HTMLElement, item: SuggestionItem, index: number, token: WordBounds, type: SuggestEventDetail["type"], selected: boolean, group: string): void {
+    const config = getGroupConfig(group);
+    row.textContent = "";
+    let custom: ReturnType<RenderRowFunction> = null;
+    if (config.renderRow) {
+      const highlight = (text: string) => renderHighlighted(text, getHighlightRanges(text, item, token, type));
+      try { custom = config.renderRow(item, { index, selected, query: token.word, type, highlight }); } catch {}
+    }
+    if (custom instanceof Node) row.appendChild(custom);
+    else if (typeof custom === "string") row.textContent = custom;
+    else renderRowContent(row, item, token, type);
+    if (config.rowActions !== false) appendRowActions(row, item, group);
+  }
+
+  // The lowercased learned word a suggestion stands for, or null when there's nothing to forget or pin
+  function getLearnedWord(item: SuggestionItem, group = ""): string | null {
+    const lower = item.value.toLowerCase();
+    return wordsCacheMap[group || "default"]?.entries[lower] ? lower : null;
+  }
+
+  function appendRowActions(row: HTMLElement, item: SuggestionItem, group: string): void {
+    const word = getLearnedWord(item, group);
+    if (!word) return;
+    const pinned = !!wordsCacheMap[group || "default"].entries[word].pinned;
+    const actions = document.createElement('span');
+    actions.setAttribute('data-sugg-actions', '');
+    // Reached through the keymap instead, since an option can't hold controls of its own
+    actions.setAttribute('aria-hidden', 'true');
+    applyPartStyle(actions, "actions");
+    ([["pin", "📌", pinned ? "Unpin" : "Pin"], ["forget", "✕", "Forget"]] as const).forEach(([action, text, title]) => {
+      const button = document.createElement('span');
+      button.setAttribute('data-sugg-action', action);
+      button.textContent = text;
+      button.title = title;
+      if (action === "pin") button.setAttribute('aria-pressed', String(pinned));
+      applyPartStyle(button, "action");
+      actions.appendChild(button);
+    });
+    row.appendChild(actions);
+  }
+
+  // Returns false when the suggestion isn't a learned word, so the key keeps its default behaviour
+  function forgetSuggestion(element: HTMLElement, index: number): boolean {
+    const state = elementStates.get(element);
+    const item = state?.suggestions[index];
+    const word = item ? getLearnedWord(item, state!.group) : null;
+    if (!state || !item || !word) return false;
+    const detail: ForgetEventDetail = { group: state.group, word };
+    if (!emit(element, "beforeforget", detail)) return true;
+    removeWord(word, state.group);
+    if (options.announcements !== false) announce(`${item.value} forgotten`);
+    emit(element, "forget", detail);
+    updateUI(element);
+    return true;
+  }
+
+  function togglePinned(element: HTMLElement, index: number): boolean {
+    const state = elementStates.get(element);
+    const item = state?.suggestions[index];
+    const word = item ? getLearnedWord(item, state!.group) : null;
+    if (!state || !word) return false;
+    const pinned = !wordsCacheMap[state.group || "default"].entries[word].pinned;
+    setPinned(word, pinned, state.group);
+    const button = popup?.querySelector(`[data-sugg-index="${index}"] [data-sugg-action="pin"]`) as HTMLElement | null;
+    if (button) {
+      button.setAttribute('aria-pressed', String(pinned));
+      button.title = pinned ? "Unpin" : "Pin";
+    }
+    emit(element, "pin", { group: state.group, word, pinned });
+    return true;
+  }
+
+  function refreshPanels(group = ""): void {
+    panels[group || "default"]?.forEach(panel => panel.refresh());
+  }
+
+  function createWordPanel(group: string, container: HTMLElement | ShadowRoot): WordPanel {
+    const cacheKey = group || "default";
+    const selected = new Set<string>();
+    const element = document.createElement("div");
+    element.setAttribute('data-gc-panel', '');
+    element.setAttribute('data-gc-theme', resolveTheme(getGroupConfig(group).theme));
+    applyPartStyle(element, "panel");
+
+    const toolbar = document.createElement("div");
+    toolbar.setAttribute('data-gc-panel-toolbar', '');
+    applyPartStyle(toolbar, "panelToolbar");
+    const search = document.createElement("input");
+    search.type = "search";
+    search.placeholder = "Search words";
+    search.setAttribute('aria-label', 'Search words');
+    search.setAttribute('data-gc-panel-search', '');
+    applyPartStyle(search, "panelSearch");
+    toolbar.appendChild(search);
+    const buttons = (["pin", "unpin", "delete"] as const).map(action => {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = `${action[0].toUpperCase()}${action.slice(1)} selected`;
+      button.setAttribute('data-gc-panel-action', action);
+      toolbar.appendChild(button);
+      return button;
+    });
+
+    const table = document.createElement("table");
+    table.setAttribute('data-gc-panel-table', '');
+    applyPartStyle(table, "panelTable");
+    const head = table.createTHead().insertRow();
+    const selectAll = document.createElement("input");
+    selectAll.type = "checkbox";
+    selectAll.setAttribute('aria-label', 'Select all shown');
+    head.appendChild(document.createElement("th")).appendChild(selectAll);
+    ["Word", "Uses", "Last used", "Pinned"].forEach(label => { head.appendChild(document.createElement("th")).textContent = label; });
+    const body = table.createTBody();
+
+    const summary = document.createElement("div");
+    summary.setAttribute('data-gc-panel-summary', '');
+    summary.setAttribute('aria-live', 'polite');
+    applyPartStyle(summary, "panelSummary");
+    element.append(toolbar, table, summary);
+
+    // Lowercased words matching the search, in listWords order
+    function getShown(): string[] {
+      const query = search.value.trim().toLowerCase();
+      return loadWords(group).map(word => word.toLowerCase()).filter(word => !query || word.includes(query));
+    }
+
+    function refresh(): void {
+      const words = loadWords(group);
+      const entries = wordsCacheMap[cacheKey]?.entries || {};
+      const query = search.value.trim().toLowerCase();
+      const known = new Set(words.map(word => word.toLowerCase()));
+      selected.forEach(word => { if (!known.has(word)) selected.delete(word); });
+
+      body.textContent = "";
+      let shown = 0;
+      words.forEach(word => {
+        const lower = word.toLowerCase();
+        if (query && !lower.includes(query)) return;
+        shown++;
+        const entry = entries[lower] || EMPTY_ENTRY;
+        const row = body.insertRow();
+        row.setAttribute('data-gc-word', lower);
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.checked = selected.has(lower);
+        checkbox.setAttribute('aria-label', `Select ${word}`);
+        row.insertCell().appendChild(checkbox);
+        row.insertCell().textContent = word;
+        row.insertCell().textContent = String(entry.frequency);
+        row.insertCell().textContent = entry.lastUsed ? new Date(entry.lastUsed).toLocaleString() : "—";
+        const pin = document.createElement("button");
+        pin.type = "button";
+        pin.textContent = "📌";
+        pin.setAttribute('aria-label', `Pin ${word}`);
+        pin.setAttribute('aria-pressed', String(!!entry.pinned));
+        row.insertCell().appendChild(pin);
+      });
+      summary.textContent = `${shown} of ${words.length} words${selected.size ? `, ${selected.size} selected` : ""}`;
+      updateSelection();
+    }
+
+    function updateSelection(): void {
+      const shown = getShown();
+      selectAll.checked = shown.length > 0 && shown.every(word => selected.has(word));
+      buttons.forEach(button => { button.disabled = selected.size === 0; });
+    }
+
+    search.addEventListener("input", refresh);
+    selectAll.addEventListener("change", () => {
+      getShown().forEach(word => (selectAll.checked ? selected.add(word) : selected.delete(word)));
+      refresh();
+    });
+    body.addEventListener("change", (ev) => {
+      const checkbox = ev.target as HTMLInputElement;
+      const word = (checkbox.closest('[data-gc-word]') as HTMLElement | null)?.getAttribute('data-gc-word');
+      if (!word) return;
+      if (checkbox.checked) selected.add(word);
+      else selected.delete(word);
+      refresh();
+    });
+    // Each change refreshes every panel of the group through queueSaveWords
+    body.addEventListener("click", (ev) => {
+      const pin = (ev.target as HTMLElement).closest('button');
+      const word = pin?.closest('[data-gc-word]')?.getAttribute('data-gc-word');
+      if (word) setPinned(word, pin!.getAttribute('aria-pressed') !== "true", group);
+    });
+    toolbar.addEventListener("click", (ev) => {
+      const action = (ev.target as HTMLElement).closest('[data-gc-panel-action]')?.getAttribute('data-gc-panel-action');
+      if (!action) return;
+      const words = Array.from(selected);
+      if (action === "delete") selected.clear();
+      words.forEach(word => (action === "delete" ? removeWord(word, group) : setPinned(word, action === "pin", group)));
+    });
+
+    const panel: WordPanel = {
+      element,
+      refresh,
+      destroy() {
+        panels[cacheKey]?.delete(panel);
+        element.remove();
+      }
+    };
+    (panels[cacheKey] = panels[cacheKey] || new Set()).add(panel);
+    injectStyle(container);
+    container.appendChild(element);
+    refresh();
+    return panel;
+  }
+
+  // Icon, label with the match highlighted, then the secondary text
+  function renderRowContent(row: HTMLElement, item: SuggestionItem, token: WordBounds, type: SuggestEventDetail["type"]): void {
+    if (item.icon) {
+      let icon: HTMLElement;
+      if (/^(?:https?:|data:|blob:|\/|\.\.?\/)/.test(item.icon)) {
+        const img = document.createElement('img');
+        img.src = item.icon;
+        img.alt = "";
+        applyPartStyle(img, "iconImage");
+        icon = img;
+      } else {
+        icon = document.createElement('span');
+        icon.textContent = item.icon;
+      }
+      icon.setAttribute('data-sugg-icon', '');
+      applyPartStyle(icon, "icon");
+      row.appendChild(icon);
+    }
+
+    const label = item.label ?? item.value;
+    const text = renderHighlighted(label, getHighlightRanges(label, item, token, type));
+    text.setAttribute('data-sugg-label', '');
+    row.appendChild(text);
+
+    if (item.detail) {
+      const detail = document.createElement('span');
+      detail.setAttribute('data-sugg-detail', '');
+      detail.textContent = item.detail;
+      applyPartStyle(detail, "detail");
+      row.appendChild(detail);
+    }
+  }
+
+  // Wraps matched ranges in spans; a single inline wrapper keeps spacing intact inside the flex row
+  function renderHighlighted(text: string, ranges: [number, number][]): HTMLSpanElement {
+    const wrapper = document.createElement('span');
+    let cursor = 0;
+    ranges.forEach(([start, end]) => {
+      if (start > cursor) wrapper.appendChild(document.createTextNode(text.slice(cursor, start)));
+      const match = document.createElement('span');
+      match.setAttribute('data-sugg-match', '');
+      match.textContent = text.slice(start, end);
+      wrapper.appendChild(match);
+      cursor = end;
+    });
+    if (cursor < text.length) wrapper.appendChild(document.createTextNode(text.slice(cursor)));
+    return wrapper;
+  }
+
   function updatePopupSelection(element: HTMLElement): void {
     const state = elementStates.get(element);
     if (!popup || !state || state.suggestions.length === 0) return;
     
     const config = getGroupConfig(state.group);
     const rows = Array.from(popup.querySelectorAll('[data-sugg-index]')) as HTMLElement[];
+    const text = getElementText(element);
+    const pos = getCaretPosition(element);
+    const vb = getWordBoundsAtCaret(text, pos, state.group);
     
     rows.forEach((row, i) => {
-      if (i === state.selectedIndex) {
-        row.style.background = "light-dark(rgba(59,130,246,0.1),rgba(59,130,246,0.2))";
-        row.style.color = "light-dark(rgb(59,130,246),rgb(147,197,253))";
-        row.style.transform = "translateX(2px)";
-        
-        if (!CSS.supports("color", "light-dark(rgba(59,130,246,0.1),rgba(59,130,246,0.2))")) {
-          const prefersDark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
-          row.style.background = prefersDark ? "rgba(59,130,246,0.2)" : "rgba(59,130,246,0.1)";
-          row.style.color = prefersDark ? "rgb(147,197,253)" : "rgb(59,130,246)";
-        }
-        
+      const selected = i === state.selectedIndex;
+      // Custom rows may look different when selected, so they're redrawn when that changes
+      if (config.renderRow && state.suggestions[i] && row.getAttribute('aria-selected') !== null && row.getAttribute('aria-selected') !== String(selected)) {
+        fillRow(row, state.suggestions[i], i, vb, state.suggestionType, selected, state.group);
+      }
+      row.setAttribute('aria-selected', String(selected));
+      if (selected) {
+        applyPartStyle(row, "rowSelected");
         if (config.classes?.popupRowSelected) row.classList.add(config.classes.popupRowSelected);
       } else {
-        row.style.background = "transparent";
-        row.style.color = "inherit";
-        row.style.transform = "translateX(0)";
+        applyPartStyle(row, "row");
         if (config.classes?.popupRowSelected) row.classList.remove(config.classes.popupRowSelected);
       }
     });
+    if (rows[state.selectedIndex]) element.setAttribute('aria-activedescendant', rows[state.selectedIndex].id);
 
     if (ghost && state.suggestions[state.selectedIndex]) {
-      const pos = getCaretPosition(element);
-      const vb = getWordBoundsAtCaret((element as HTMLInputElement | HTMLTextAreaElement).value, pos);
-      const token = vb.word;
-      const selectedSuggestion = state.suggestions[state.selectedIndex];
-      const appended = token && selectedSuggestion.toLowerCase().startsWith((token || '').toLowerCase())
-        ? selectedSuggestion.slice(token.length)
-        : selectedSuggestion;
-      ghost.textContent = appended;
+      const partial = getPartial(state, text, pos);
+      ghost.textContent = partial ? partial.rest : getGhostFor(vb.word, state.suggestions[state.selectedIndex], state.suggestionType);
     }
   }
 
-  function getWordBoundsAtCaret(text: string, caretIndex: number): WordBounds {
-    if (!text) return { start: 0, end: 0, word: "" };
-    let start = caretIndex;
-    while (start > 0 && !/\s/.test(text[start - 1])) start--;
-    let end = caretIndex;
-    while (end < text.length && !/\s/.test(text[end])) end++;
-    return { start, end, word: text.slice(start, end) };
+  function getTokenizer(group = ""): Tokenizer {
+    return createTokenizer(getGroupConfig(group));
+  }
+
+  // The token the caret is in or just after, per the group's tokenizer; empty between words
+  function getWordBoundsAtCaret(text: string, caretIndex: number, group = ""): WordBounds {
+    const run = getRunBounds(text, caretIndex);
+    const tokenizer = getTokenizer(group);
+    const offset = caretIndex - run.start;
+    const token = findTokens(run.word, tokenizer).find(t => t.start <= offset && offset <= t.end);
+    if (token) return { ...token, start: token.start + run.start, end: token.end + run.start };
+
+    // A trigger typed on its own already starts a token, so "@" can list every mention
+    const before = charBefore(text, caretIndex);
+    if (before && isTriggerAt(text, caretIndex - before.length, tokenizer)) {
+      return { start: caretIndex - before.length, end: caretIndex, word: before, trigger: before };
+    }
+    return { start: caretIndex, end: caretIndex, word: "" };
   }
 
   function scrollToCaretPosition(element: HTMLElement): void {
@@ -698,7 +3565,7 @@
     const caretPos = getCaretPosition(element);
     
     if (inputEl.tagName === 'TEXTAREA') {
-      const temp = document.createElement('div');
+      const temp = inputEl.ownerDocument.createElement('div');
       temp.style.cssText = "position:absolute;visibility:hidden;white-space:pre-wrap;word-wrap:break-word";
       
       const cs = getComputedStyle(inputEl);
@@ -707,12 +3574,12 @@
       temp.style.lineHeight = cs.lineHeight;
       temp.style.width = inputEl.clientWidth + 'px';
       
-      document.body.appendChild(temp);
+      inputEl.ownerDocument.body.appendChild(temp);
       temp.textContent = inputEl.value.substring(0, caretPos);
       
       const lineHeight = parseInt(cs.lineHeight) || parseInt(cs.fontSize);
       const caretTop = temp.offsetHeight;
-      document.body.removeChild(temp);
+      temp.remove();
       
       const scrollTop = inputEl.scrollTop;
       const clientHeight = inputEl.clientHeight;
@@ -723,7 +3590,7 @@
         inputEl.scrollTop = caretTop - clientHeight + lineHeight;
       }
     } else {
-      const temp = document.createElement('span');
+      const temp = inputEl.ownerDocument.createElement('span');
       temp.style.cssText = "position:absolute;visibility:hidden;white-space:pre";
       
       const cs = getComputedStyle(inputEl);
@@ -731,9 +3598,9 @@
       temp.style.fontSize = cs.fontSize;
       temp.textContent = inputEl.value.substring(0, caretPos);
       
-      document.body.appendChild(temp);
+      inputEl.ownerDocument.body.appendChild(temp);
       const caretLeft = temp.offsetWidth;
-      document.body.removeChild(temp);
+      temp.remove();
       
       const scrollLeft = inputEl.scrollLeft;
       const clientWidth = inputEl.clientWidth;
@@ -746,53 +3613,144 @@
     }
   }
 
+  // Selects the range and types over it so the edit lands on the browser's undo stack
+  function replaceEditableRange(el: HTMLElement, start: number, end: number, text: string): void {
+    const segments = getEditableText(el).segments;
+    const from = pointAtTextOffset(el, segments, start);
+    const to = pointAtTextOffset(el, segments, end);
+    const selection = getSelectionFor(el);
+    if (!selection) return;
+
+    // The element's own document, so editors inside iframes get an undoable insertText
+    const doc = el.ownerDocument || document;
+    const range = doc.createRange();
+    range.setStart(from.node, from.offset);
+    range.setEnd(to.node, to.offset);
+    selection.removeAllRanges();
+    selection.addRange(range);
+
+    let inserted = false;
+    try { inserted = doc.execCommand("insertText", false, text); } catch {}
+    if (inserted) return; // execCommand fires its own input event
+
+    range.deleteContents();
+    const node = doc.createTextNode(text);
+    range.insertNode(node);
+    range.setStartAfter(node);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    el.dispatchEvent(new Event("input", { bubbles: true }));
+  }
+
+  function replaceText(element: HTMLElement, text: string, start: number, end: number, insert: string): void {
+    if (isContentEditableSurface(element)) {
+      replaceEditableRange(element, start, end, insert);
+      return;
+    }
+    const inputEl = element as HTMLInputElement | HTMLTextAreaElement;
+    const newCaret = start + insert.length;
+    inputEl.value = text.slice(0, start) + insert + text.slice(end);
+    try { inputEl.setSelectionRange(newCaret, newCaret); } catch {}
+    
+    scrollToCaretPosition(element);
+    inputEl.dispatchEvent(new Event("input", { bubbles: true }));
+  }
+
+  // Inserts the next word or character of the ghost text and keeps the rest on screen
+  function acceptPartial(element: HTMLElement, unit: "word" | "char"): void {
+    const state = elementStates.get(element);
+    if (!state || state.suggestions.length === 0) return;
+    const text = getElementText(element);
+    const pos = getCaretPosition(element);
+    const vb = getWordBoundsAtCaret(text, pos, state.group);
+    const item = state.suggestions[state.selectedIndex];
+    const partial = getPartial(state, text, pos);
+    // Fuzzy and trigger matches don't extend what was typed, so there is nothing to split
+    const extendsToken = state.suggestionType === "prediction" || !vb.word || item.value.toLowerCase().startsWith(vb.word.toLowerCase());
+    const rest = partial ? partial.rest : extendsToken ? getGhostFor(vb.word, item, state.suggestionType) : "";
+    const chunk = unit === "char" ? Array.from(rest)[0] || "" : (rest.match(/^\s*\S+/) || [rest])[0];
+    if (!chunk || chunk.length >= rest.length) {
+      acceptSuggestion(element);
+      return;
+    }
+    const caret = pos + chunk.length;
+    state.partial = {
+      item,
+      type: state.suggestionType,
+      rest: rest.slice(chunk.length),
+      from: partial ? partial.from : vb.word ? vb.start : pos,
+      text: text.slice(0, pos) + chunk + text.slice(pos),
+      caret
+    };
+    replaceText(element, text, pos, pos, chunk);
+  }
+
   function replaceTokenWithSuggestion(element: HTMLElement): void {
     const state = elementStates.get(element);
     if (!state || state.suggestions.length === 0) return;
     
-    const currentSuggestion = state.suggestions[state.selectedIndex];
+    const currentSuggestion = state.suggestions[state.selectedIndex].value;
     const pos = getCaretPosition(element);
-    const vb = getWordBoundsAtCaret((element as HTMLInputElement | HTMLTextAreaElement).value, pos);
-    const inputEl = element as HTMLInputElement | HTMLTextAreaElement;
+    const text = getElementText(element);
+    const vb = getWordBoundsAtCaret(text, pos, state.group);
+    const partial = getPartial(state, text, pos);
 
-    let before: string, after: string, rebuilt: string, newCaret: number;
+    let start: number, end: number, insert: string;
 
-    if (vb.word) {
-      before = inputEl.value.slice(0, vb.start);
-      after = inputEl.value.slice(vb.end);
-      rebuilt = before + currentSuggestion + after;
-      newCaret = vb.start + currentSuggestion.length;
+    if (partial) {
+      start = end = pos;
+      insert = partial.rest;
+    } else if (vb.word) {
+      start = vb.start;
+      end = vb.end;
+      insert = currentSuggestion;
     } else {
-      before = inputEl.value.slice(0, pos);
-      after = inputEl.value.slice(pos);
-      const needsSpace = before.length > 0 && !/\s$/.test(before);
-      rebuilt = before + (needsSpace ? ' ' : '') + currentSuggestion + after;
-      newCaret = before.length + (needsSpace ? 1 : 0) + currentSuggestion.length;
+      start = end = pos;
+      const needsSpace = pos > 0 && !/\s/.test(text[pos - 1]);
+      insert = (needsSpace ? ' ' : '') + currentSuggestion;
     }
 
-    inputEl.value = rebuilt;
-    try { inputEl.setSelectionRange(newCaret, newCaret); } catch {}
-    
-    scrollToCaretPosition(element);
-    inputEl.dispatchEvent(new Event("input", { bubbles: true }));
-    saveWord(currentSuggestion, state.group);
-    elementWordCount.set(element, rebuilt.split(/\s+/).filter(Boolean).length);
+    state.partial = null;
+    replaceText(element, text, start, end, insert);
+    // Mentions and other trigger items come from their source, so they aren't learned
+    if (state.suggestionType !== "trigger") {
+      let previous = getPreviousWord(text, partial ? partial.from : start, state.group);
+      findTokens(currentSuggestion, getTokenizer(state.group)).forEach(token => {
+        learnWord(element, token.word, previous, state.group);
+        previous = token.word;
+      });
+    }
+    elementWordCount.set(element, getElementText(element).split(/\s+/).filter(Boolean).length);
   }
 
   function acceptSuggestion(element: HTMLElement): void {
-    replaceTokenWithSuggestion(element);
     const state = elementStates.get(element);
-    if (state) {
-      state.suggestions = [];
-      state.selectedIndex = 0;
-    }
+    if (!state || state.suggestions.length === 0) return;
+    const detail: AcceptEventDetail = {
+      group: state.group,
+      query: getWordBoundsAtCaret(getElementText(element), getCaretPosition(element), state.group).word,
+      suggestion: state.suggestions[state.selectedIndex].value,
+      item: state.suggestions[state.selectedIndex]
+    };
+    if (!emit(element, "beforeaccept", detail)) return;
+    replaceTokenWithSuggestion(element);
     removeUIForElement(element);
+    announceAccepted(detail.suggestion);
+    emit(element, "accept", detail);
     try { element.focus(); } catch {}
   }
 
   function onFocus(e: Event): void {
-    const target = e.target as HTMLElement;
+    const target = getEventTarget(e);
     if (!target?.dataset || target.dataset.autocomplete === undefined) return;
+    if (!isInScope(target) || isLockedField(target)) return;
+    if (isSecretField(target)) {
+      // Remember it, so toggling a password field to type="text" doesn't start learning it
+      privateFields.set(target, true);
+      return;
+    }
+    if (!privateFields.has(target)) privateFields.set(target, isSensitiveField(target));
     
     const group = parseElementConfig(target);
     
@@ -800,121 +3758,180 @@
       elementStates.set(target, {
         group,
         suggestions: [],
+        suggestionType: "completion",
         selectedIndex: 0,
         isComposing: false,
         debounceTimer: null,
-        rafId: null
+        rafId: null,
+        sourceRequest: null,
+        ownsRole: !target.hasAttribute("role"),
+        partial: null,
+        fieldAttributes: getFieldAttributes(target),
+        navigated: false
       });
+      if (!target.hasAttribute("role")) target.setAttribute("role", "combobox");
+      target.setAttribute("aria-autocomplete", "both");
+      target.setAttribute("aria-controls", listboxId);
+      target.setAttribute("aria-expanded", "false");
     } else {
       elementStates.get(target)!.group = group;
     }
 
     try {
-      const inputEl = target as HTMLInputElement | HTMLTextAreaElement;
-      inputEl.setAttribute("autocomplete", "off");
-      inputEl.setAttribute("spellcheck", "false");
-      inputEl.setAttribute("autocorrect", "off");
+      target.setAttribute("autocomplete", "off");
+      target.setAttribute("spellcheck", "false");
+      target.setAttribute("autocorrect", "off");
     } catch {}
 
+    // The live region has to be in the DOM before its first message for it to be read
+    if (options.announcements !== false) createLiveRegion();
+
     loadWords(group);
-    elementWordCount.set(target, ((target as HTMLInputElement | HTMLTextAreaElement).value || "").split(/\s+/).filter(Boolean).length);
+    elementWordCount.set(target, getElementText(target).split(/\s+/).filter(Boolean).length);
     scheduleUIUpdate(target);
   }
 
   function onInput(e: Event): void {
-    const target = e.target as HTMLElement;
+    const target = getEventTarget(e);
     const state = elementStates.get(target);
     if (!state || state.isComposing) return;
     scheduleUIUpdate(target);
   }
 
   function onKeyDown(e: KeyboardEvent): void {
-    const target = e.target as HTMLElement;
+    const target = getEventTarget(e);
     const state = elementStates.get(target);
     if (!state || state.isComposing) return;
 
-    if (state.suggestions.length > 1) {
-      if (e.key === "ArrowDown") {
-        e.preventDefault();
-        state.selectedIndex = (state.selectedIndex + 1) % state.suggestions.length;
-        updatePopupSelection(target);
-        return;
-      }
-      if (e.key === "ArrowUp") {
-        e.preventDefault();
-        state.selectedIndex = state.selectedIndex === 0 ? state.suggestions.length - 1 : state.selectedIndex - 1;
-        updatePopupSelection(target);
-        return;
-      }
-    }
-
-    if ((e.key === "Tab" || e.key === "ArrowRight") && state.suggestions.length > 0) {
+    const action = state.suggestions.length > 0 ? getKeyAction(e, target, state.group) : null;
+    if (action && runKeyAction(target, action)) {
       e.preventDefault();
-      acceptSuggestion(target);
       return;
     }
 
     if (e.key === " " || e.key === "Enter") {
-      const pos = getCaretPosition(target);
-      const vb = getWordBoundsAtCaret((target as HTMLInputElement | HTMLTextAreaElement).value, pos);
-      const w = vb.word?.trim();
-      if (w) saveWord(w, state.group);
+      learnAtCaret(target, getElementText(target), getCaretPosition(target), state.group);
       analyzeIncremental(target, state.group);
-      state.suggestions = [];
-      state.selectedIndex = 0;
-      removeUIForElement(target);
-      return;
+      dismissSuggestions(target, "commit");
     }
+  }
 
-    if (e.key === "Escape") {
-      state.suggestions = [];
-      state.selectedIndex = 0;
-      removeUIForElement(target);
-      return;
+  // The group's bindings over the defaults, with Enter added to accept when enterAccepts is set
+  function getKeymap(group = ""): { [action in KeyAction]: string[] } {
+    const config = getGroupConfig(group);
+    const keymap = { ...DEFAULT_KEYMAP, ...config.keymap };
+    if (config.enterAccepts) keymap.accept = [...(keymap.accept || []), "Enter"];
+    return keymap;
+  }
+
+  // The accept and navigation keys actually bound for the group, e.g. "complete • Tab/→ • ↑↓"
+  function getHintText(group: string, type: SuggestEventDetail["type"], count: number): string {
+    const keymap = getKeymap(group);
+    const parts = [type === "prediction" ? "predict" : "complete"];
+    const accept = (keymap.accept || []).map(formatBinding);
+    if (accept.length > 0) parts.push(accept.join("/"));
+    const prev = (keymap.prev || []).map(formatBinding)[0];
+    const next = (keymap.next || []).map(formatBinding)[0];
+    if (count > 1 && prev && next) parts.push(prev.length === 1 && next.length === 1 ? prev + next : `${prev}/${next}`);
+    return parts.join(" • ");
+  }
+
+  function getKeyAction(e: KeyboardEvent, element: HTMLElement, group: string): KeyAction | null {
+    const config = getGroupConfig(group);
+    const keymap = getKeymap(group);
+    const action = (Object.keys(keymap) as KeyAction[]).find(name => (keymap[name] || []).some(binding => matchesBinding(e, binding)));
+    if (!action) return null;
+    if (config.arrowRightAtLineEnd && matchesBinding(e, "ArrowRight")) {
+      const text = getElementText(element);
+      const pos = getCaretPosition(element);
+      if (pos < text.length && text[pos] !== "\n") return null;
+    }
+    return action;
+  }
+
+  // Rows that fit in the popup at once; the whole list when it doesn't scroll
+  function getPageSize(count: number): number {
+    const row = popup?.querySelector('[data-sugg-index]') as HTMLElement | null;
+    if (!popup || !row || !row.offsetHeight) return count;
+    return Math.max(1, Math.floor(popup.clientHeight / row.offsetHeight));
+  }
+
+  // Returns false for keys that should keep their default behaviour
+  function runKeyAction(element: HTMLElement, action: KeyAction): boolean {
+    const state = elementStates.get(element)!;
+    switch (action) {
+      case "accept":
+        acceptSuggestion(element);
+        return true;
+      case "acceptWord":
+      case "acceptChar":
+        acceptPartial(element, action === "acceptWord" ? "word" : "char");
+        return true;
+      case "dismiss":
+        dismissSuggestions(element, "escape");
+        return true;
+      case "forget":
+        return forgetSuggestion(element, state.selectedIndex);
+      case "pin":
+        return togglePinned(element, state.selectedIndex);
     }
+    const count = state.suggestions.length;
+    if (count < 2) return false;
+    if (action === "next" || action === "prev") state.navigated = true;
+    else if (!state.navigated) return false;
+    const last = count - 1;
+    const page = getPageSize(count);
+    const index = {
+      next: (state.selectedIndex + 1) % count,
+      prev: state.selectedIndex === 0 ? last : state.selectedIndex - 1,
+      pageDown: Math.min(last, state.selectedIndex + page),
+      pageUp: Math.max(0, state.selectedIndex - page),
+      first: 0,
+      last
+    }[action];
+    selectSuggestion(element, index);
+    return true;
   }
 
   function onBlur(e: Event): void {
-    const target = e.target as HTMLElement;
+    const target = getEventTarget(e);
     if (!target?.dataset || target.dataset.autocomplete === undefined) return;
     
     setTimeout(() => {
+      if (!installed || !elementStates.has(target)) return;
       try {
-        const pos = getCaretPosition(target);
-        const vb = getWordBoundsAtCaret((target as HTMLInputElement | HTMLTextAreaElement).value, pos);
-        const w = vb.word?.trim();
         const group = parseElementConfig(target);
-        if (w) saveWord(w, group);
+        learnAtCaret(target, getElementText(target), getCaretPosition(target), group);
         analyzeIncremental(target, group);
       } catch {}
       
       const state = elementStates.get(target);
       if (state) {
-        state.suggestions = [];
-        state.selectedIndex = 0;
         if (state.debounceTimer) clearTimeout(state.debounceTimer);
         if (state.rafId) cancelAnimationFrame(state.rafId);
+        cancelSourceRequest(state);
       }
-      removeUIForElement(target);
+      dismissSuggestions(target, "blur");
     }, 150);
   }
 
   function onCompositionStart(e: Event): void {
-    const state = elementStates.get(e.target as HTMLElement);
+    const state = elementStates.get(getEventTarget(e));
     if (state) state.isComposing = true;
   }
 
   function onCompositionEnd(e: Event): void {
-    const state = elementStates.get(e.target as HTMLElement);
+    const target = getEventTarget(e);
+    const state = elementStates.get(target);
     if (state) {
       state.isComposing = false;
-      scheduleUIUpdate(e.target as HTMLElement);
+      scheduleUIUpdate(target);
     }
   }
 
   function onDocClick(e: Event): void {
     if (!popup) return;
-    const target = e.target as HTMLElement;
+    const target = getEventTarget(e);
     
     let autocompleteEl: HTMLElement | null = target.dataset?.autocomplete !== undefined 
       ? target 
@@ -922,13 +3939,8 @@
     
     if ((autocompleteEl && elementStates.has(autocompleteEl)) || popup.contains(target)) return;
     
-    elementStates.forEach((state) => {
-      state.suggestions = [];
-      state.selectedIndex = 0;
-    });
-    
-    if (ghost) ghost.style.display = "none";
-    if (popup) popup.style.display = "none";
+    // Collapses the combobox as well, so aria-expanded and aria-activedescendant don't outlive the popup
+    elementStates.forEach((_, element) => dismissSuggestions(element, "outside"));
   }
 
   // Event listeners
@@ -942,45 +3954,140 @@
     ["click", onDocClick, true]
   ] as const;
 
-  events.forEach(([event, handler, options]) => {
-    document.addEventListener(event, handler as EventListener, options);
-  });
+  // Outside a closed shadow root the target is its host; the listener on the root itself sees the real one
+  function isListenedHost(target: HTMLElement): boolean {
+    return Array.from(listenerRoots).some(root => (root as ShadowRoot).host === target);
+  }
+
+  const listeners = events.map(([event, handler, listenerOptions]) => [event, (e: Event) => {
+    if (seenEvents.has(e) || isListenedHost(getEventTarget(e))) return;
+    seenEvents.add(e);
+    (handler as (e: Event) => void)(e);
+  }, listenerOptions] as const);
+
+  function listen(root: Node): void {
+    if (listenerRoots.has(root)) return;
+    listenerRoots.add(root);
+    addInstalledRoot(root, releaseElements);
+    listeners.forEach(([event, listener, listenerOptions]) => root.addEventListener(event, listener, listenerOptions));
+  }
 
-  // Inject optimized styles
-  const style = document.createElement("style");
-  style.textContent = `input[data-autocomplete],textarea[data-autocomplete]{font-family:inherit}[data-sugg-index]{padding:8px 12px;border-radius:6px;cursor:pointer;white-space:nowrap;transition:all .15s ease;color:inherit}[data-sugg-index]:hover{background:light-dark(rgba(59,130,246,.05),rgba(59,130,246,.15))!important}.autocomplete-popup{scrollbar-width:thin;scrollbar-color:light-dark(rgba(0,0,0,.2),rgba(255,255,255,.2)) transparent}.autocomplete-popup::-webkit-scrollbar{width:6px}.autocomplete-popup::-webkit-scrollbar-track{background:transparent}.autocomplete-popup::-webkit-scrollbar-thumb{background:light-dark(rgba(0,0,0,.2),rgba(255,255,255,.2));border-radius:3px}.autocomplete-popup::-webkit-scrollbar-thumb:hover{background:light-dark(rgba(0,0,0,.3),rgba(255,255,255,.3))}@media (prefers-color-scheme:dark){[data-sugg-index]:hover{background:rgba(59,130,246,.15)!important}.autocomplete-popup{scrollbar-color:rgba(255,255,255,.2) transparent}.autocomplete-popup::-webkit-scrollbar-thumb{background:rgba(255,255,255,.2)}.autocomplete-popup::-webkit-scrollbar-thumb:hover{background:rgba(255,255,255,.3)}}@media (prefers-color-scheme:light){[data-sugg-index]:hover{background:rgba(59,130,246,.05)!important}.autocomplete-popup{scrollbar-color:rgba(0,0,0,.2) transparent}.autocomplete-popup::-webkit-scrollbar-thumb{background:rgba(0,0,0,.2)}.autocomplete-popup::-webkit-scrollbar-thumb:hover{background:rgba(0,0,0,.3)}}`;
-  document.head.appendChild(style);
+  function unlisten(root: Node): void {
+    if (!listenerRoots.delete(root)) return;
+    removeInstalledRoot(root, releaseElements);
+    listeners.forEach(([event, listener, listenerOptions]) => root.removeEventListener(event, listener, listenerOptions));
+  }
+
+  // Closed shadow roots hide their inputs from the document's listeners and frames don't bubble into it at all
+  function listenAround(element: HTMLElement): void {
+    const root = element.getRootNode();
+    if (root !== getRoot() && (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE || root.nodeType === Node.DOCUMENT_NODE)) listen(root);
+  }
 
   // Cleanup and maintenance
   function idleCleanup(): void {
+    elementStates.forEach((_, element) => {
+      if (!element.isConnected) detachElement(element);
+    });
+
     for (const group in wordsCacheMap) {
-      const config = getGroupConfig(group);
-      const cache = wordsCacheMap[group];
-      if (cache?.words?.length > config.MAX_WORDS) {
-        cache.words = cache.words.slice(0, config.MAX_WORDS);
-      }
-    }
-    
-    for (const group in wordsCacheMap) {
+      // A lowered MAX_WORDS takes effect here, and is stored with the next write
+      evictWords(group);
       if (!trieMap[group]) rebuildTrieForGroup(group);
     }
     flushStorageSync();
   }
 
-  const cleanupInterval = 'requestIdleCallback' in window 
-    ? setInterval(() => requestIdleCallback(idleCleanup), DEFAULT_CONFIG.IDLE_CLEANUP_DELAY)
-    : setInterval(idleCleanup, DEFAULT_CONFIG.IDLE_CLEANUP_DELAY * 2);
+  let installed = false;
+  // One stylesheet per document or shadow root an overlay was mounted in
+  const styles = new Map<Node, HTMLStyleElement>();
+  let cleanupInterval: ReturnType<typeof setInterval> | null = null;
+
+  function install(): void {
+    if (installed) return;
+    installed = true;
+
+    listen(getRoot());
+
+    if (options.crossTabSync !== false) {
+      window.addEventListener("storage", onStorageEvent);
+      if (typeof BroadcastChannel !== "undefined") {
+        syncChannel = new BroadcastChannel(SYNC_CHANNEL);
+        syncChannel.addEventListener("message", onSyncMessage);
+      }
+    }
+
+    injectStyle(getContainer());
+
+    cleanupInterval = 'requestIdleCallback' in window 
+      ? setInterval(() => requestIdleCallback(idleCleanup), DEFAULT_CONFIG.IDLE_CLEANUP_DELAY)
+      : setInterval(idleCleanup, DEFAULT_CONFIG.IDLE_CLEANUP_DELAY * 2);
+  }
+
+  function detachElement(element: HTMLElement): boolean {
+    const state = elementStates.get(element);
+    if (!state) return false;
+
+    if (getActiveElement() === element) removeUIForElement(element);
+    if (state.debounceTimer) clearTimeout(state.debounceTimer);
+    if (state.rafId) cancelAnimationFrame(state.rafId);
+    cancelSourceRequest(state);
+    ["aria-autocomplete", "aria-controls", "aria-expanded", "aria-activedescendant"].forEach(attr => element.removeAttribute(attr));
+    if (state.ownsRole) element.removeAttribute("role");
+    // Otherwise a later instance would read our autocomplete="off" as the page marking the field private
+    for (const name in state.fieldAttributes) {
+      const value = state.fieldAttributes[name];
+      if (value === null) element.removeAttribute(name);
+      else element.setAttribute(name, value);
+    }
+    elementStates.delete(element);
+    elementWordCount.delete(element);
+    return true;
+  }
+
+  function destroy(): void {
+    Array.from(elementStates.keys()).forEach(detachElement);
+
+    Array.from(listenerRoots).forEach(unlisten);
+
+    if (cleanupInterval) clearInterval(cleanupInterval);
+    cleanupInterval = null;
+    if (storageSyncTimer) clearTimeout(storageSyncTimer);
+    flushStorageSync();
+
+    window.removeEventListener("storage", onStorageEvent);
+    syncChannel?.close();
+    syncChannel = null;
+
+    for (const key in panels) panels[key].forEach(panel => panel.destroy());
+    styles.forEach(node => node.remove());
+    styles.clear();
+    [ghost, popup, mirror, liveRegion].forEach(node => node?.remove());
+    ghost = popup = mirror = liveRegion = null;
+    announcedCount = 0;
+    lastPopupPos = { left: -1, top: -1 };
+    renderedRowsKey = "";
+
+    // Drop caches so a later install reloads from storage
+    for (const key in wordsCacheMap) delete wordsCacheMap[key];
+    for (const key in trieMap) delete trieMap[key];
+    for (const key in transitionsCacheMap) delete transitionsCacheMap[key];
+    loadedGroups.clear();
+    installed = false;
+  }
 
   // Public API
   const GhostComplete = {
     init(element: HTMLElement | string, group = "default") {
-      const el = typeof element === 'string' ? document.querySelector(element) as HTMLElement : element;
-      if (!el) return false;
+      const el = typeof element === 'string' ? getRoot().querySelector(element) as HTMLElement : element;
+      if (!el || isSecretField(el) || isLockedField(el)) return false;
       
+      install();
+      listenAround(el);
       el.setAttribute('data-autocomplete', group);
       
       if (!elementStates.has(el)) {
-        const currentFocus = document.activeElement;
+        const currentFocus = getActiveElement();
         el.focus();
         if (currentFocus && currentFocus !== el) {
           (currentFocus as HTMLElement).focus();
@@ -991,7 +4098,7 @@
     },
     
     initAll(group = "default") {
-      const inputs = document.querySelectorAll('input[type="text"],input[type="search"],input[type="email"],input[type="url"],input:not([type]),textarea');
+      const inputs = getRoot().querySelectorAll('input[type="text"],input[type="search"],input[type="url"],input:not([type]),textarea');
       let count = 0;
       
       inputs.forEach(input => {
@@ -1009,11 +4116,27 @@
       return { ...getGroupConfig(group) };
     },
     
+    addSource(group = "", source: string[] | SourceFunction | SuggestionSource) {
+      return registerSource(group, source);
+    },
+    
+    removeSource(group = "", id: string) {
+      return unregisterSource(group, id);
+    },
+    
     clearWords(group = "") {
-      const { wordsKey } = getStorageKeys(group);
+      const { wordsKey, ngramsKey } = getStorageKeys(group);
       const cacheKey = group || "default";
-      localStorage.removeItem(wordsKey);
-      wordsCacheMap[cacheKey] = { words: [], entries: {} };
+      removeStorage(group, wordsKey);
+      removeStorage(group, ngramsKey);
+      getLegacyWordsKeys(group).forEach(key => removeStorage(group, key));
+      removeQuarantinedCopies(group, [wordsKey, ngramsKey, ...getLegacyWordsKeys(group)]);
+      unreadableKeys.delete(wordsKey);
+      unreadableKeys.delete(ngramsKey);
+      broadcastChange(group, wordsKey, null);
+      broadcastChange(group, ngramsKey, null);
+      wordsCacheMap[cacheKey] = createWordsCache();
+      transitionsCacheMap[cacheKey] = Object.create(null);
       trieMap[cacheKey] = new Trie();
     },
     
@@ -1021,9 +4144,125 @@
       this.clearWords(group);
     },
     
+    detach(element: HTMLElement | string) {
+      const el = typeof element === 'string' ? getRoot().querySelector(element) as HTMLElement : element;
+      return el ? detachElement(el) : false;
+    },
+
+    // A string is a group name; elements are marked with data-autocomplete-disabled
+    enable(target: HTMLElement | string) {
+      setEnabled(target, true);
+    },
+
+    disable(target: HTMLElement | string) {
+      setEnabled(target, false);
+    },
+
+    // Stops suggesting and learning everywhere until resume(), keeping all state
+    pause() {
+      getRootElement()?.setAttribute("data-autocomplete-paused", "");
+      elementStates.forEach((_, element) => dismissSuggestions(element, "disabled"));
+    },
+
+    resume() {
+      getRootElement()?.removeAttribute("data-autocomplete-paused");
+    },
+
+    isEnabled(element: HTMLElement | string) {
+      const el = typeof element === 'string' ? getRoot().querySelector(element) as HTMLElement : element;
+      return !!el && el.dataset.autocomplete !== undefined && isEnabled(el, el.dataset.autocomplete);
+    },
+
+    // Listen inside a closed shadow root or a same-origin iframe's document as well
+    addRoot(root: Document | ShadowRoot) {
+      install();
+      listen(root);
+    },
+
+    removeRoot(root: Document | ShadowRoot) {
+      if (root === getRoot()) return false;
+      Array.from(elementStates.keys()).forEach(el => { if (root.contains(el)) detachElement(el); });
+      unlisten(root);
+      return true;
+    },
+    
+    destroy() {
+      destroy();
+    },
+    
+    create: createGhostComplete,
+
+    // The named exports, for the UMD build, where the instance takes the place of the exports object
+    createMemoryStorageAdapter,
+    createLocalStorageAdapter,
+    createSessionStorageAdapter,
+    createIndexedDBStorageAdapter,
+    createEncryptedStorageAdapter,
+    
+    ready(group = "") {
+      return whenLoaded(group);
+    },
+    
     listWords(group = "") {
       return [...loadWords(group)];
     },
+
+    // Pinned words are never evicted to make room for new ones
+    pinWord(group = "", word: string) {
+      return setPinned(word, true, group);
+    },
+
+    unpinWord(group = "", word: string) {
+      return setPinned(word, false, group);
+    },
+
+    // Removes the word and never learns or suggests it again, until unblockWord
+    blockWord(group = "", word: string) {
+      return blockWord(word, group);
+    },
+
+    unblockWord(group = "", word: string) {
+      return unblockWord(word, group);
+    },
+
+    // Appends a panel listing the group's words, with search, pinning and bulk delete
+    mountPanel(group = "", container: HTMLElement | ShadowRoot | string) {
+      const target = typeof container === 'string' ? getRoot().querySelector(container) as HTMLElement : container;
+      return target ? createWordPanel(group, target) : null;
+    },
+
+    // Seeds the group with words from code; returns how many were added or updated
+    addWords(group = "", words: string[], addOptions: { frequency?: number } = {}) {
+      return addWords(group, words, addOptions.frequency);
+    },
+
+    // Forgets one word, its use count and its word pairs
+    removeWord(group = "", word: string) {
+      return removeWord(word, group);
+    },
+
+    getWordInfo(group = "", word: string): WordEntry | null {
+      loadWords(group);
+      const entry = wordsCacheMap[group || "default"].entries[(word || "").trim().toLowerCase()];
+      return entry ? { ...entry } : null;
+    },
+
+    query(group = "", prefix: string, queryOptions: QueryOptions = {}) {
+      return queryWords(group, prefix, queryOptions);
+    },
+
+    listBlocked(group = "") {
+      loadWords(group);
+      return Array.from(wordsCacheMap[group || "default"].blocked);
+    },
+    
+    exportGroup(group = "") {
+      return exportVocabulary(group);
+    },
+    
+    importGroup(group = "", data: VocabularyExport | string, importOptions: ImportOptions = {}) {
+      return importVocabulary(group, data, importOptions);
+    },
     
     getStats(group = "") {
       const words = loadWords(group);
@@ -1031,26 +4270,44 @@
       const entries = wordsCacheMap[cacheKey]?.entries || {};
       return {
         totalWords: words.length,
-        totalEntries: Object.keys(entries).length
+        totalEntries: Object.keys(entries).length,
+        pinnedWords: Object.keys(entries).filter(word => entries[word].pinned).length,
+        blockedWords: wordsCacheMap[cacheKey]?.blocked.size || 0
       };
     },
     
     version: "2.1.0"
   };
 
-  // Global exposure
+  if (options.groups) {
+    for (const group in options.groups) updateGroupConfig(group, options.groups[group]);
+  }
+  if (typeof document !== 'undefined') install();
+
+  return GhostComplete;
+}
+
+// Default instance, auto-attached to the whole document and exposed globally.
+// A copy left behind by a previous load (e.g. after a hot reload) is torn down first. It is kept under
+// its own key, since the UMD wrapper has already replaced window.GhostComplete by the time this runs.
+if (typeof window !== 'undefined') {
+  const previous = (window as any).__ghostCompleteInstance;
+  if (previous && typeof previous.destroy === 'function') {
+    try { previous.destroy(); } catch {}
+  }
+}
+
+const GhostComplete = createGhostComplete();
+
+if (typeof window !== 'undefined') {
   (window as any).GhostComplete = GhostComplete;
   (window as any).__customAutocomplete = GhostComplete;
+  (window as any).__ghostCompleteInstance = GhostComplete;
 
-  // Module exports
-  try {
-    if (typeof (globalThis as any).module?.exports !== 'undefined') {
-      (globalThis as any).module.exports = GhostComplete;
-    }
-  } catch {}
-  
-  if (typeof window !== 'undefined' && (window as any).define?.amd) {
+  if ((window as any).define?.amd) {
     (window as any).define('ghostcomplete', [], () => GhostComplete);
   }
+}
+
+export default GhostComplete;
 
-})();
\ No newline at end of file